@@ -1,89 +1,206 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { VoiceAgent } from './components/VoiceAgent';
+import { Consultation, ConsultationMode, DrillScenarioId } from './types';
+import { deleteConsultation, listConsultations } from './services/consultationStore';
+import { I18nContext, useLanguageSettings } from './components/I18nContext';
+import { LanguagePicker } from './components/LanguagePicker';
+import { TenantContext } from './components/TenantContext';
+import { ConfigErrorScreen } from './components/ConfigErrorScreen';
+import { DrillSetup } from './components/DrillSetup';
+import { brandVars, loadTenant } from './services/tenant';
+import { registerServiceWorker } from './services/serviceWorker';
 
 const App: React.FC = () => {
-  const [consultationMode, setConsultationMode] = useState<'voice' | 'message' | null>(null);
+  const [consultationMode, setConsultationMode] = useState<ConsultationMode | null>(null);
+  const [resumed, setResumed] = useState<Consultation | null>(null);
+  const [drillScenario, setDrillScenario] = useState<DrillScenarioId | null>(null);
+  const [drillSetupOpen, setDrillSetupOpen] = useState(false);
+  const [savedConsultations, setSavedConsultations] = useState<Consultation[]>([]);
+  const [{ tenant, errors: configErrors }] = useState(loadTenant);
+  const brand = useMemo(() => (tenant ? brandVars(tenant) : undefined), [tenant]);
+  const i18n = useLanguageSettings(brand);
+  const { t } = i18n;
 
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-950 to-slate-900 text-white flex flex-col">
-      {/* Header */}
-      <header className="p-6 border-b border-white/10 flex justify-between items-center backdrop-blur-md sticky top-0 z-50">
-        <div className="flex items-center gap-3">
-          <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center shadow-lg shadow-blue-500/20">
-            <span className="text-xl font-bold">RK</span>
-          </div>
-          <div className="flex flex-col">
-            <h1 className="text-xl font-semibold tracking-tight leading-none">Rich Klein</h1>
-            <span className="text-[10px] uppercase tracking-[0.2em] text-blue-400 font-bold">Crisis Management</span>
-          </div>
-        </div>
-        <div className="hidden md:flex items-center gap-6 text-sm">
-          <div className="text-slate-400 font-medium">
-            Global Strategic PR & Media Relations
-          </div>
-        </div>
-      </header>
+  useEffect(registerServiceWorker, []);
+
+  useEffect(() => {
+    if (tenant) document.title = t('app.documentTitle');
+  }, [tenant, t]);
+
+  useEffect(() => {
+    if (consultationMode) return;
+    listConsultations()
+      // Tenants can share an origin through `?tenant=`, so only list this tenant's consultations.
+      .then(saved => setSavedConsultations(saved.filter(c => !c.tenant || c.tenant.id === tenant?.id)))
+      .catch(e => console.warn("Saved consultations unavailable.", e));
+  }, [consultationMode, tenant]);
+
+  const startConsultation = (mode: ConsultationMode, consultation: Consultation | null = null, scenario: DrillScenarioId | null = null) => {
+    setResumed(consultation);
+    setDrillScenario(scenario);
+    setDrillSetupOpen(false);
+    setConsultationMode(mode);
+  };
+
+  const exitConsultation = () => {
+    setResumed(null);
+    setDrillScenario(null);
+    setConsultationMode(null);
+  };
 
-      {/* Main Content */}
-      <main className={`flex-1 container mx-auto px-4 ${consultationMode ? 'py-4' : 'py-8 md:py-12'} flex flex-col items-center ${consultationMode ? 'justify-start' : 'justify-center'} max-w-4xl`}>
-        {!consultationMode ? (
-          <div className="text-center space-y-12 animate-in fade-in slide-in-from-bottom-4 duration-700">
-            <div className="space-y-4">
-              <div className="inline-block px-4 py-1.5 rounded-full bg-blue-500/10 border border-blue-500/20 text-blue-400 text-xs font-bold uppercase tracking-widest">
-                Available 24/7 Worldwide
+  const removeConsultation = async (id: string) => {
+    await deleteConsultation(id);
+    setSavedConsultations(prev => prev.filter(c => c.id !== id));
+  };
+
+  if (!tenant) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <ConfigErrorScreen errors={configErrors} />
+      </I18nContext.Provider>
+    );
+  }
+
+  return (
+    <TenantContext.Provider value={tenant}>
+      <I18nContext.Provider value={i18n}>
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-950 to-slate-900 text-white flex flex-col">
+          {/* Header */}
+          <header className="p-6 border-b border-white/10 flex justify-between items-center backdrop-blur-md sticky top-0 z-50">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center shadow-lg shadow-blue-500/20">
+                <span className="text-xl font-bold">{tenant.branding.monogram}</span>
+              </div>
+              <div className="flex flex-col">
+                <h1 className="text-xl font-semibold tracking-tight leading-none">{tenant.branding.shortName}</h1>
+                <span className="text-[10px] uppercase tracking-[0.2em] text-blue-400 font-bold">{t('app.brandSubtitle')}</span>
               </div>
-              <h2 className="text-4xl md:text-6xl font-bold tracking-tight">
-                Immediate Strategic <br />
-                <span className="text-blue-500">Crisis Response.</span>
-              </h2>
-              <p className="text-lg text-slate-400 max-w-xl mx-auto leading-relaxed">
-                Connect with an agent trained on Rich Klein's combined 40 years of journalism and public relations experience.
-              </p>
             </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full max-w-3xl mx-auto">
-              {/* Voice Option */}
-              <button
-                onClick={() => setConsultationMode('voice')}
-                className="group relative flex flex-col items-center p-8 bg-white/5 border border-white/10 rounded-[2.5rem] hover:bg-blue-600/10 hover:border-blue-500/30 transition-all duration-300 hover:scale-[1.02] active:scale-95 cursor-pointer"
-              >
-                <div className="w-16 h-16 bg-blue-600 rounded-2xl flex items-center justify-center mb-6 shadow-xl shadow-blue-600/20 group-hover:scale-110 transition-transform">
-                  <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" x2="12" y1="19" y2="22"/></svg>
-                </div>
-                <h3 className="text-xl font-bold mb-2">Secure Voice Line</h3>
-                <p className="text-sm text-slate-400 text-center">Speak directly with the strategist for rapid, hands-free assessment.</p>
-                <div className="mt-6 px-4 py-2 bg-blue-500/20 text-blue-400 text-[10px] font-bold uppercase tracking-widest rounded-full opacity-0 group-hover:opacity-100 transition-opacity">
-                  Start Call
-                </div>
-              </button>
+            <div className="flex items-center gap-6 text-sm">
+              <div className="hidden md:block text-slate-400 font-medium">
+                {t('app.tagline')}
+              </div>
+              <LanguagePicker />
+            </div>
+          </header>
 
-              {/* Message Option */}
-              <button
-                onClick={() => setConsultationMode('message')}
-                className="group relative flex flex-col items-center p-8 bg-white/5 border border-white/10 rounded-[2.5rem] hover:bg-slate-800 transition-all duration-300 hover:scale-[1.02] active:scale-95 cursor-pointer"
-              >
-                <div className="w-16 h-16 bg-slate-700 rounded-2xl flex items-center justify-center mb-6 shadow-xl group-hover:scale-110 transition-transform">
-                  <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>
+          {/* Main Content */}
+          <main className={`flex-1 container mx-auto px-4 ${consultationMode ? 'py-4' : 'py-8 md:py-12'} flex flex-col items-center ${consultationMode ? 'justify-start max-w-6xl' : 'justify-center max-w-4xl'}`}>
+            {!consultationMode ? (
+              <div className="text-center space-y-12 animate-in fade-in slide-in-from-bottom-4 duration-700">
+                <div className="space-y-4">
+                  <div className="inline-block px-4 py-1.5 rounded-full bg-blue-500/10 border border-blue-500/20 text-blue-400 text-xs font-bold uppercase tracking-widest">
+                    {t('landing.availability')}
+                  </div>
+                  <h2 className="text-4xl md:text-6xl font-bold tracking-tight">
+                    {t('landing.headline')} <br />
+                    <span className="text-blue-500">{t('landing.headlineAccent')}</span>
+                  </h2>
+                  <p className="text-lg text-slate-400 max-w-xl mx-auto leading-relaxed">
+                    {t('landing.intro')}
+                  </p>
                 </div>
-                <h3 className="text-xl font-bold mb-2">Tactical Message</h3>
-                <p className="text-sm text-slate-400 text-center">Provide sensitive details via secure text-only consultation.</p>
-                <div className="mt-6 px-4 py-2 bg-white/10 text-slate-400 text-[10px] font-bold uppercase tracking-widest rounded-full opacity-0 group-hover:opacity-100 transition-opacity">
-                  Open Chat
-                </div>
-              </button>
-            </div>
-          </div>
-        ) : (
-          <div className="w-full animate-in zoom-in-95 duration-500">
-             <VoiceAgent preferredMode={consultationMode} onExit={() => setConsultationMode(null)} />
-          </div>
-        )}
-      </main>
+            
+                {drillSetupOpen ? (
+                  <DrillSetup
+                    onStart={(scenario, mode) => startConsultation(mode, null, scenario)}
+                    onCancel={() => setDrillSetupOpen(false)}
+                  />
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full max-w-4xl mx-auto">
+                    {/* Voice Option */}
+                    <button
+                      onClick={() => startConsultation('voice')}
+                      className="group relative flex flex-col items-center p-8 bg-white/5 border border-white/10 rounded-[2.5rem] hover:bg-blue-600/10 hover:border-blue-500/30 transition-all duration-300 hover:scale-[1.02] active:scale-95 cursor-pointer"
+                    >
+                      <div className="w-16 h-16 bg-blue-600 rounded-2xl flex items-center justify-center mb-6 shadow-xl shadow-blue-600/20 group-hover:scale-110 transition-transform">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" x2="12" y1="19" y2="22"/></svg>
+                      </div>
+                      <h3 className="text-xl font-bold mb-2">{t('landing.voiceTitle')}</h3>
+                      <p className="text-sm text-slate-400 text-center">{t('landing.voiceBody')}</p>
+                      <div className="mt-6 px-4 py-2 bg-blue-500/20 text-blue-400 text-[10px] font-bold uppercase tracking-widest rounded-full opacity-0 group-hover:opacity-100 transition-opacity">
+                        {t('landing.voiceCta')}
+                      </div>
+                    </button>
 
-      <footer className="p-6 text-center text-slate-500 text-xs border-t border-white/10">
-        © {new Date().getFullYear()} Rich Klein Crisis Management. Confidential Tactical Assessment.
-      </footer>
-    </div>
+                    {/* Message Option */}
+                    <button
+                      onClick={() => startConsultation('message')}
+                      className="group relative flex flex-col items-center p-8 bg-white/5 border border-white/10 rounded-[2.5rem] hover:bg-slate-800 transition-all duration-300 hover:scale-[1.02] active:scale-95 cursor-pointer"
+                    >
+                      <div className="w-16 h-16 bg-slate-700 rounded-2xl flex items-center justify-center mb-6 shadow-xl group-hover:scale-110 transition-transform">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>
+                      </div>
+                      <h3 className="text-xl font-bold mb-2">{t('landing.messageTitle')}</h3>
+                      <p className="text-sm text-slate-400 text-center">{t('landing.messageBody')}</p>
+                      <div className="mt-6 px-4 py-2 bg-white/10 text-slate-400 text-[10px] font-bold uppercase tracking-widest rounded-full opacity-0 group-hover:opacity-100 transition-opacity">
+                        {t('landing.messageCta')}
+                      </div>
+                    </button>
+
+                    {/* Drill Option */}
+                    <button
+                      onClick={() => setDrillSetupOpen(true)}
+                      className="group relative flex flex-col items-center p-8 bg-white/5 border border-white/10 rounded-[2.5rem] hover:bg-amber-500/10 hover:border-amber-500/30 transition-all duration-300 hover:scale-[1.02] active:scale-95 cursor-pointer"
+                    >
+                      <div className="w-16 h-16 bg-amber-600 rounded-2xl flex items-center justify-center mb-6 shadow-xl shadow-amber-600/20 group-hover:scale-110 transition-transform">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 11h3l8-5v12l-8-5H3z"/><path d="M6 13v5a2 2 0 0 0 4 0v-3"/><path d="M18 9a4 4 0 0 1 0 6"/></svg>
+                      </div>
+                      <h3 className="text-xl font-bold mb-2">{t('landing.drillTitle')}</h3>
+                      <p className="text-sm text-slate-400 text-center">{t('landing.drillBody')}</p>
+                      <div className="mt-6 px-4 py-2 bg-amber-500/20 text-amber-400 text-[10px] font-bold uppercase tracking-widest rounded-full opacity-0 group-hover:opacity-100 transition-opacity">
+                        {t('landing.drillCta')}
+                      </div>
+                    </button>
+                  </div>
+                )}
+
+                {savedConsultations.length > 0 && (
+                  <div className="w-full max-w-3xl mx-auto text-left space-y-3">
+                    <div className="text-[10px] font-bold uppercase tracking-widest text-slate-500 px-2">
+                      {t('landing.previous')}
+                    </div>
+                    <ul className="space-y-2">
+                      {savedConsultations.map(c => (
+                        <li key={c.id} className="group flex items-center gap-4 px-5 py-4 bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 transition-colors">
+                          <button onClick={() => startConsultation(c.mode, c)} className="flex-1 min-w-0 text-left cursor-pointer">
+                            <div className="text-sm font-medium text-slate-200 truncate">{c.title}</div>
+                            <div className="text-xs text-slate-500 mt-1">
+                              {c.drill ? `${t('landing.modeDrill')} · ` : ''}{t(c.mode === 'voice' ? 'landing.modeVoice' : 'landing.modeMessage')} · {new Date(c.updatedAt).toLocaleString(i18n.locale)} · {t('landing.entries', { count: c.transcriptions.length })}
+                            </div>
+                          </button>
+                          <button
+                            onClick={() => removeConsultation(c.id)}
+                            className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 transition-all opacity-0 group-hover:opacity-100"
+                            title={t('landing.delete')}
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6"/><path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/></svg>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="w-full animate-in zoom-in-95 duration-500">
+                 <VoiceAgent
+                   key={resumed?.id ?? 'new'}
+                   preferredMode={consultationMode}
+                   drillScenario={drillScenario ?? undefined}
+                   resume={resumed ?? undefined}
+                   onExit={exitConsultation}
+                 />
+              </div>
+            )}
+          </main>
+
+          <footer className="p-6 text-center text-slate-500 text-xs border-t border-white/10">
+            {t('app.footer', { year: new Date().getFullYear() })}
+          </footer>
+        </div>
+      </I18nContext.Provider>
+    </TenantContext.Provider>
   );
 };
 
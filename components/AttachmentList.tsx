@@ -0,0 +1,63 @@
+import React from 'react';
+import { Attachment } from '../types';
+import { attachmentKind, dataUrl } from '../services/attachments';
+import { decode } from '../services/audioUtils';
+import { useI18n } from './I18nContext';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  /** Shown while composing; sent attachments can't be removed. */
+  onRemove?: (id: string) => void;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Browsers refuse to navigate to data: URLs, so files open from a blob instead. A blob runs in the
+// app's origin, so text kinds (HTML and email included) open as plain text and never as a page.
+function openAttachment(attachment: Attachment) {
+  const type = attachmentKind(attachment.mimeType) === 'text' ? 'text/plain;charset=utf-8' : attachment.mimeType;
+  const url = URL.createObjectURL(new Blob([decode(attachment.data).buffer as ArrayBuffer], { type }));
+  window.open(url, '_blank', 'noopener');
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(a => (
+        <div key={a.id} className="relative group">
+          <button
+            onClick={() => openAttachment(a)}
+            className="flex items-center gap-2 max-w-[14rem] rounded-xl bg-slate-950/40 border border-white/10 hover:border-white/30 overflow-hidden text-left transition-all"
+            title={t('attachments.open', { name: a.name })}
+          >
+            {attachmentKind(a.mimeType) === 'image' ? (
+              <img src={dataUrl(a)} alt={a.name} className="h-16 w-16 object-cover shrink-0" />
+            ) : (
+              <span className="h-16 w-12 flex items-center justify-center shrink-0 bg-slate-800 text-[9px] font-bold uppercase tracking-widest text-slate-300">
+                {attachmentKind(a.mimeType) === 'pdf' ? 'PDF' : 'TXT'}
+              </span>
+            )}
+            <span className="flex flex-col min-w-0 pr-3">
+              <span className="text-xs font-medium truncate">{a.name}</span>
+              <span className="text-[10px] opacity-60">{formatSize(a.size)}</span>
+            </span>
+          </button>
+          {onRemove && (
+            <button
+              onClick={() => onRemove(a.id)}
+              className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-slate-700 text-slate-200 hover:bg-red-500 text-xs leading-none"
+              title={t('attachments.remove', { name: a.name })}
+              aria-label={t('attachments.remove', { name: a.name })}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { AuditEvent } from '../services/auditLog';
+import { useI18n } from './I18nContext';
+
+interface AuditPanelProps {
+  events: AuditEvent[];
+  /** False while redaction is on and message text is left out. */
+  contentLogged: boolean;
+  onExport: () => void;
+}
+
+function formatClock(at: number, locale: string): string {
+  return new Date(at).toLocaleTimeString(locale, { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalSecondDigits: 3 });
+}
+
+function describeDetail(event: AuditEvent): string {
+  return Object.entries(event.detail ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(' ');
+}
+
+export const AuditPanel: React.FC<AuditPanelProps> = ({ events, contentLogged, onExport }) => {
+  const { t, locale } = useI18n();
+  const firstTokens = events.filter(e => e.type === 'first-token' && e.ms !== undefined).map(e => e.ms!);
+  const averageFirstToken = firstTokens.length ? Math.round(firstTokens.reduce((a, b) => a + b, 0) / firstTokens.length) : null;
+  const tokens = events.filter(e => e.type === 'usage').reduce((sum, e) => sum + Number(e.detail?.totalTokens ?? 0), 0);
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-5 space-y-5">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{t('audit.events', { count: events.length })}</span>
+        <button
+          onClick={onExport}
+          disabled={!events.length}
+          className="px-3 py-1.5 rounded-lg bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50 text-[10px] font-bold uppercase tracking-widest"
+        >
+          {t('audit.export')}
+        </button>
+      </div>
+      <p className={`text-[11px] leading-relaxed ${contentLogged ? 'text-amber-500/80' : 'text-slate-500'}`}>
+        {t(contentLogged ? 'audit.contentOn' : 'audit.contentOff')}
+      </p>
+      <dl className="grid grid-cols-2 gap-3">
+        <div className="p-3 rounded-xl bg-slate-950/40 border border-white/5">
+          <dt className="text-[9px] font-bold uppercase tracking-widest text-slate-500">{t('audit.firstToken')}</dt>
+          <dd className="text-sm font-bold text-slate-200">{averageFirstToken === null ? '—' : `${averageFirstToken} ms`}</dd>
+        </div>
+        <div className="p-3 rounded-xl bg-slate-950/40 border border-white/5">
+          <dt className="text-[9px] font-bold uppercase tracking-widest text-slate-500">{t('audit.tokens')}</dt>
+          <dd className="text-sm font-bold text-slate-200">{tokens.toLocaleString(locale)}</dd>
+        </div>
+      </dl>
+      {events.length ? (
+        <div className="space-y-2">
+          <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('audit.latest')}</span>
+          <ol className="space-y-1.5 font-mono text-[10px] leading-snug">
+            {events.map((event, i) => (
+              <li key={i} className="text-slate-400 break-words">
+                <span className="text-slate-600">{formatClock(event.at, locale)}</span>{' '}
+                <span className={event.type.endsWith('failed') || event.type === 'live-error' ? 'text-red-400' : 'text-blue-300'}>{event.type}</span>
+                {event.ms !== undefined && <span className="text-slate-300"> {event.ms} ms</span>}
+                {event.detail && <span> {describeDetail(event)}</span>}
+                {event.content && <div className="text-slate-500 truncate">“{event.content}”</div>}
+              </li>
+            )).reverse()}
+          </ol>
+        </div>
+      ) : (
+        <p className="text-[11px] text-slate-600">{t('audit.empty')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { TenantConfigError } from '../services/tenantConfig';
+import { useI18n } from './I18nContext';
+
+interface ConfigErrorScreenProps {
+  errors: TenantConfigError[];
+}
+
+export const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ errors }) => {
+  const { t } = useI18n();
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-950 to-slate-900 text-white flex items-center justify-center p-6">
+      <div className="w-full max-w-2xl p-8 bg-white/5 border border-red-500/30 rounded-[2rem] space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight text-red-300">{t('app.configErrorTitle')}</h1>
+          <p className="text-sm text-slate-400">{t('app.configErrorHint')}</p>
+        </div>
+        {errors.map(e => (
+          <div key={e.source} className="space-y-2">
+            <div className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{e.source}</div>
+            <ul className="space-y-1 font-mono text-xs text-slate-300 list-disc pl-5">
+              {e.issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { CrisisCase, CrisisCaseField, CrisisDeadline, CrisisSeverity } from '../types';
+import { useI18n } from './I18nContext';
+
+interface CrisisCasePanelProps {
+  crisisCase: CrisisCase;
+  /** Fields the model changed most recently, briefly highlighted. */
+  recentlyChanged: CrisisCaseField[];
+  onCorrect: <F extends CrisisCaseField>(field: F, value: CrisisCase[F]) => void;
+  onUnlock: (field: CrisisCaseField) => void;
+}
+
+const SEVERITY_STYLES: Record<CrisisSeverity, string> = {
+  low: 'text-emerald-400',
+  moderate: 'text-amber-400',
+  high: 'text-orange-400',
+  critical: 'text-red-400',
+};
+
+const inputClass = 'w-full bg-slate-950 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/40 placeholder:text-slate-600';
+
+function formatDeadlines(deadlines: CrisisDeadline[]): string {
+  return deadlines.map(d => (d.due ? `${d.description} | ${d.due}` : d.description)).join('\n');
+}
+
+function parseDeadlines(text: string): CrisisDeadline[] {
+  return text.split('\n').map(l => l.trim()).filter(Boolean).map(line => {
+    const [description, due] = line.split('|').map(s => s.trim());
+    return due ? { description, due } : { description };
+  });
+}
+
+function parseList(text: string): string[] {
+  return text.split('\n').map(l => l.trim()).filter(Boolean);
+}
+
+const FieldShell: React.FC<{
+  field: CrisisCaseField;
+  locked: boolean;
+  highlighted: boolean;
+  onUnlock: (field: CrisisCaseField) => void;
+  children: React.ReactNode;
+}> = ({ field, locked, highlighted, onUnlock, children }) => {
+  const { t } = useI18n();
+  return (
+    <div className={`space-y-1.5 rounded-lg transition-colors duration-700 ${highlighted ? 'bg-blue-500/10' : ''}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t(`case.field.${field}`)}</span>
+        {locked && (
+          <button
+            onClick={() => onUnlock(field)}
+            className="text-[9px] font-bold uppercase tracking-widest text-emerald-400/80 hover:text-emerald-300"
+            title={t('case.verifiedHint')}
+          >
+            {t('case.verified')}
+          </button>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+};
+
+export const CrisisCasePanel: React.FC<CrisisCasePanelProps> = ({ crisisCase, recentlyChanged, onCorrect, onUnlock }) => {
+  // Drafts are committed on blur so the model's updates don't fight with typing.
+  const [drafts, setDrafts] = useState<Partial<Record<CrisisCaseField, string>>>({});
+  const { t, locale } = useI18n();
+
+  useEffect(() => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      recentlyChanged.forEach(f => delete next[f]);
+      return next;
+    });
+  }, [recentlyChanged]);
+
+  const textValue = (field: CrisisCaseField): string => {
+    if (drafts[field] !== undefined) return drafts[field]!;
+    const value = crisisCase[field];
+    if (field === 'deadlines') return formatDeadlines(value as CrisisDeadline[]);
+    if (Array.isArray(value)) return value.join('\n');
+    return (value as string | undefined) ?? '';
+  };
+
+  const setDraft = (field: CrisisCaseField, value: string) => setDrafts(prev => ({ ...prev, [field]: value }));
+
+  const commit = (field: CrisisCaseField) => {
+    const draft = drafts[field];
+    if (draft === undefined) return;
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+    if (field === 'deadlines') onCorrect('deadlines', parseDeadlines(draft));
+    else if (field === 'stakeholders' || field === 'knownFacts') onCorrect(field, parseList(draft));
+    else onCorrect(field as 'organization' | 'incidentType' | 'mediaExposure', draft.trim() || undefined);
+  };
+
+  const shell = (field: CrisisCaseField, children: React.ReactNode) => (
+    <FieldShell
+      key={field}
+      field={field}
+      locked={crisisCase.lockedFields.includes(field)}
+      highlighted={recentlyChanged.includes(field)}
+      onUnlock={onUnlock}
+    >
+      {children}
+    </FieldShell>
+  );
+
+  const textInput = (field: 'organization' | 'incidentType' | 'mediaExposure', placeholder: string) => shell(field, (
+    <input
+      value={textValue(field)}
+      onChange={e => setDraft(field, e.target.value)}
+      onBlur={() => commit(field)}
+      onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  ));
+
+  const listInput = (field: 'stakeholders' | 'knownFacts' | 'deadlines', placeholder: string) => shell(field, (
+    <textarea
+      value={textValue(field)}
+      onChange={e => setDraft(field, e.target.value)}
+      onBlur={() => commit(field)}
+      placeholder={placeholder}
+      rows={Math.max(2, textValue(field).split('\n').length)}
+      className={`${inputClass} resize-none leading-relaxed`}
+    />
+  ));
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{t('case.title')}</span>
+        {crisisCase.updatedAt && (
+          <span className="text-[10px] text-slate-600">{t('case.updated', { time: new Date(crisisCase.updatedAt).toLocaleTimeString(locale) })}</span>
+        )}
+      </div>
+      {textInput('organization', t('case.placeholder.organization'))}
+      {textInput('incidentType', t('case.placeholder.incidentType'))}
+      {shell('severity', (
+        <select
+          value={crisisCase.severity ?? ''}
+          onChange={e => onCorrect('severity', (e.target.value || undefined) as CrisisSeverity | undefined)}
+          className={`${inputClass} ${crisisCase.severity ? SEVERITY_STYLES[crisisCase.severity] : ''} font-bold uppercase tracking-wider`}
+        >
+          <option value="">{t('case.unassessed')}</option>
+          {(Object.keys(SEVERITY_STYLES) as CrisisSeverity[]).map(s => <option key={s} value={s}>{t(`case.severity.${s}`)}</option>)}
+        </select>
+      ))}
+      {listInput('stakeholders', t('case.onePerLine'))}
+      {listInput('knownFacts', t('case.onePerLine'))}
+      {textInput('mediaExposure', t('case.placeholder.mediaExposure'))}
+      {listInput('deadlines', t('case.placeholder.deadlines'))}
+    </div>
+  );
+};
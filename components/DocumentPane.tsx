@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { CrisisDocument } from '../types';
+import { documentFilename } from '../services/documents';
+import { downloadFile } from '../services/briefing';
+import { useI18n } from './I18nContext';
+
+interface DocumentPaneProps {
+  documents: CrisisDocument[];
+  /** Document to bring into view, e.g. the one the model just drafted. */
+  focusId: string | null;
+  busy: boolean;
+  onSaveEdit: (id: string, content: string) => void;
+  onRefine: (id: string, instruction?: string) => void;
+}
+
+const actionClass = 'px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-30';
+
+export const DocumentPane: React.FC<DocumentPaneProps> = ({ documents, focusId, busy, onSaveEdit, onRefine }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(focusId);
+  const [versionIndex, setVersionIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const [copied, setCopied] = useState(false);
+  const { t, locale } = useI18n();
+
+  useEffect(() => {
+    if (focusId) {
+      setSelectedId(focusId);
+      setVersionIndex(null);
+      setDraft(null);
+    }
+  }, [focusId]);
+
+  const doc = documents.find(d => d.id === selectedId) ?? documents[documents.length - 1];
+  if (!doc) {
+    return (
+      <div className="h-full flex items-center justify-center p-8 text-center text-xs text-slate-500 leading-relaxed">
+        {t('documents.empty')}
+      </div>
+    );
+  }
+
+  const index = versionIndex ?? doc.versions.length - 1;
+  const version = doc.versions[index];
+  const content = draft ?? version.content;
+
+  const selectDocument = (id: string) => {
+    setSelectedId(id);
+    setVersionIndex(null);
+    setDraft(null);
+  };
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const refine = () => {
+    onRefine(doc.id, instruction.trim() || undefined);
+    setInstruction('');
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 space-y-3 border-b border-white/5">
+        <select
+          value={doc.id}
+          onChange={e => selectDocument(e.target.value)}
+          className="w-full bg-slate-950 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-200 focus:outline-none"
+        >
+          {documents.map(d => <option key={d.id} value={d.id}>{t(`documents.kind.${d.kind}`)}: {d.title}</option>)}
+        </select>
+        <div className="flex items-center justify-between text-[10px] text-slate-500">
+          <div className="flex items-center gap-2">
+            <button onClick={() => { setVersionIndex(Math.max(0, index - 1)); setDraft(null); }} disabled={index === 0} className="disabled:opacity-30 hover:text-slate-300">‹</button>
+            <span className="uppercase tracking-widest font-bold">{t('documents.versionOf', { version: index + 1, total: doc.versions.length })}</span>
+            <button onClick={() => { setVersionIndex(index + 1 >= doc.versions.length ? null : index + 1); setDraft(null); }} disabled={index === doc.versions.length - 1} className="disabled:opacity-30 hover:text-slate-300">›</button>
+          </div>
+          <span title={version.instruction}>
+            {t(version.source === 'user' ? 'documents.editedByYou' : version.instruction ? 'documents.refined' : 'documents.drafted')} · {new Date(version.createdAt).toLocaleTimeString(locale)}
+          </span>
+        </div>
+      </div>
+
+      <textarea
+        value={content}
+        onChange={e => setDraft(e.target.value)}
+        className="flex-1 min-h-0 w-full bg-transparent px-4 py-3 text-xs leading-relaxed text-slate-200 font-mono resize-none focus:outline-none custom-scrollbar"
+      />
+
+      <div className="p-4 space-y-3 border-t border-white/5">
+        <div className="flex flex-wrap gap-2">
+          {draft !== null && draft !== version.content && (
+            <button onClick={() => { onSaveEdit(doc.id, draft); setDraft(null); setVersionIndex(null); }} className={`${actionClass} bg-blue-600 text-white hover:bg-blue-500`}>
+              {t('documents.saveVersion')}
+            </button>
+          )}
+          <button onClick={copy} className={`${actionClass} bg-slate-700 text-slate-300 hover:bg-slate-600`}>
+            {t(copied ? 'documents.copied' : 'documents.copy')}
+          </button>
+          <button onClick={() => downloadFile(documentFilename(doc, 'md'), content, 'text/markdown')} className={`${actionClass} bg-slate-700 text-slate-300 hover:bg-slate-600`}>
+            {t('documents.download')}
+          </button>
+          <button onClick={() => onRefine(doc.id)} disabled={busy} className={`${actionClass} bg-slate-700 text-slate-300 hover:bg-slate-600`}>
+            {t('documents.regenerate')}
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={instruction}
+            onChange={e => setInstruction(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && instruction.trim() && !busy && refine()}
+            placeholder={t('documents.refinePlaceholder')}
+            className="flex-1 bg-slate-950 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/40 placeholder:text-slate-600"
+          />
+          <button onClick={refine} disabled={busy || !instruction.trim()} className={`${actionClass} bg-blue-600/80 text-white hover:bg-blue-500`}>
+            {t('documents.refine')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { DrillSession } from '../types';
+import { useI18n } from './I18nContext';
+
+interface DrillPanelProps {
+  drill: DrillSession;
+  debriefing: boolean;
+  error: string | null;
+}
+
+function scoreColor(score: number): string {
+  if (score >= 8) return 'bg-emerald-500';
+  if (score >= 5) return 'bg-amber-500';
+  return 'bg-red-500';
+}
+
+export const DrillPanel: React.FC<DrillPanelProps> = ({ drill, debriefing, error }) => {
+  const { t } = useI18n();
+  const { debrief } = drill;
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-5 space-y-6">
+      <div className="space-y-2">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('drill.scenario')}</span>
+        <div className="text-sm font-semibold text-slate-200">{t(`drill.${drill.scenario}.title`)}</div>
+        <p className="text-[11px] leading-relaxed text-slate-400">{t(`drill.${drill.scenario}.brief`)}</p>
+      </div>
+
+      {error && <p className="text-[11px] leading-relaxed text-red-400">{error}</p>}
+
+      {debriefing ? (
+        <p className="text-[11px] text-blue-300 animate-pulse">{t('drill.debriefing')}</p>
+      ) : !debrief ? (
+        <p className="text-[11px] leading-relaxed text-slate-500">{t('drill.pending')}</p>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex items-baseline justify-between">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{t('drill.overall')}</span>
+            <span className="text-2xl font-bold text-white">{t('drill.score', { score: debrief.overall })}</span>
+          </div>
+          <p className="text-xs leading-relaxed text-slate-300">{debrief.summary}</p>
+          {debrief.scores.map(s => (
+            <div key={s.category} className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{t(`drill.category.${s.category}`)}</span>
+                <span className="text-xs font-bold text-slate-200">{t('drill.score', { score: s.score })}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                <div className={`h-full ${scoreColor(s.score)}`} style={{ width: `${s.score * 10}%` }} />
+              </div>
+              {s.comment && <p className="text-[11px] leading-relaxed text-slate-400">{s.comment}</p>}
+              {s.excerpts.map(quote => (
+                <blockquote key={quote} className="border-l-2 border-blue-500/40 pl-3 text-[11px] italic text-slate-300">
+                  “{quote}”
+                </blockquote>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
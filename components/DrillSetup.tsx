@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { ConsultationMode, DrillScenarioId } from '../types';
+import { DRILL_SCENARIOS } from '../services/drill';
+import { useI18n } from './I18nContext';
+
+interface DrillSetupProps {
+  onStart: (scenario: DrillScenarioId, mode: ConsultationMode) => void;
+  onCancel: () => void;
+}
+
+export const DrillSetup: React.FC<DrillSetupProps> = ({ onStart, onCancel }) => {
+  const [scenario, setScenario] = useState<DrillScenarioId>('product_recall');
+  const { t } = useI18n();
+  return (
+    <div className="w-full max-w-3xl mx-auto text-left space-y-6 p-8 bg-white/5 border border-white/10 rounded-[2.5rem]">
+      <div className="space-y-2">
+        <h3 className="text-xl font-bold">{t('drill.setupTitle')}</h3>
+        <p className="text-sm text-slate-400">{t('drill.setupHint')}</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3" role="radiogroup" aria-label={t('drill.scenario')}>
+        {(Object.keys(DRILL_SCENARIOS) as DrillScenarioId[]).map(id => (
+          <button
+            key={id}
+            role="radio"
+            aria-checked={scenario === id}
+            onClick={() => setScenario(id)}
+            className={`p-4 rounded-2xl border text-left transition-all ${scenario === id ? 'bg-blue-600/10 border-blue-500/40' : 'bg-slate-900/40 border-white/10 hover:border-white/30'}`}
+          >
+            <div className="text-sm font-bold mb-1">{t(`drill.${id}.title`)}</div>
+            <div className="text-xs text-slate-400 leading-relaxed">{t(`drill.${id}.brief`)}</div>
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap justify-end gap-3">
+        <button onClick={onCancel} className="px-4 py-2 rounded-xl text-slate-400 hover:text-white text-xs font-bold uppercase tracking-widest">
+          {t('drill.cancel')}
+        </button>
+        <button onClick={() => onStart(scenario, 'message')} className="px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 text-xs font-bold uppercase tracking-widest">
+          {t('drill.startText')}
+        </button>
+        <button onClick={() => onStart(scenario, 'voice')} className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-xs font-bold uppercase tracking-widest">
+          {t('drill.startVoice')}
+        </button>
+      </div>
+    </div>
+  );
+};
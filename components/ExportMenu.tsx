@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { Transcription } from '../types';
+import { ModelProvider } from '../services/providers';
+import { deriveTitle } from '../services/consultationStore';
+import {
+  Briefing,
+  BriefingSummary,
+  downloadFile,
+  generateBriefingSummary,
+  openPrintView,
+  renderJson,
+  renderMarkdown,
+} from '../services/briefing';
+import { TextPrivacy } from '../services/redaction';
+import { useI18n } from './I18nContext';
+import { useTenant } from './TenantContext';
+
+type ExportFormat = 'markdown' | 'json' | 'print';
+
+interface ExportMenuProps {
+  provider: ModelProvider;
+  consultationId: string;
+  transcriptions: Transcription[];
+  /** When set, the transcript is masked before it is summarized. */
+  privacy?: TextPrivacy;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ provider, consultationId, transcriptions, privacy }) => {
+  const [open, setOpen] = useState(false);
+  const [preparing, setPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+  const tenant = useTenant();
+  // The summary is a model call; reuse it until the transcript changes.
+  const cacheRef = useRef<{ length: number; summary: BriefingSummary } | null>(null);
+
+  const buildBriefing = async (): Promise<Briefing> => {
+    let summary = cacheRef.current?.length === transcriptions.length ? cacheRef.current.summary : null;
+    if (!summary) {
+      try {
+        summary = await generateBriefingSummary(provider, transcriptions, privacy);
+      } catch (e) {
+        console.warn("Executive summary unavailable; exporting transcript only.", e);
+        summary = { summary: t('export.summaryUnavailable'), actions: [] };
+      }
+      cacheRef.current = { length: transcriptions.length, summary };
+    }
+    return {
+      ...summary,
+      id: consultationId,
+      firm: tenant.branding.firmName,
+      title: deriveTitle({ transcriptions }),
+      generatedAt: Date.now(),
+      transcriptions,
+    };
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setError(null);
+    setPreparing(true);
+    try {
+      const briefing = await buildBriefing();
+      const stem = `incident-briefing-${new Date(briefing.generatedAt).toISOString().slice(0, 10)}-${consultationId.slice(0, 8)}`;
+      if (format === 'markdown') downloadFile(`${stem}.md`, renderMarkdown(briefing), 'text/markdown');
+      if (format === 'json') downloadFile(`${stem}.json`, renderJson(briefing), 'application/json');
+      if (format === 'print') openPrintView(briefing);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('export.failed'));
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const options: { format: ExportFormat; label: string; hint: string }[] = [
+    { format: 'markdown', label: t('export.markdown'), hint: '.md' },
+    { format: 'json', label: t('export.json'), hint: '.json' },
+    { format: 'print', label: t('export.print'), hint: t('export.printHint') },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={preparing || !transcriptions.some(t => t.type === 'user')}
+        className="p-2.5 rounded-xl bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-30 transition-all"
+        title={t(preparing ? 'export.preparing' : 'export.button')}
+      >
+        {preparing ? (
+          <div className="w-[18px] h-[18px] border-2 border-slate-300/30 border-t-slate-300 rounded-full animate-spin" />
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" x2="12" y1="15" y2="3"/></svg>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 glass rounded-xl shadow-2xl overflow-hidden z-20">
+          {options.map(o => (
+            <button
+              key={o.format}
+              onClick={() => handleExport(o.format)}
+              className="w-full px-4 py-3 flex justify-between items-center text-left text-sm text-slate-200 hover:bg-white/5 transition-colors"
+            >
+              <span>{o.label}</span>
+              <span className="text-[10px] uppercase tracking-widest text-slate-500">{o.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {error && (
+        <div className="absolute right-0 mt-2 w-64 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/20 text-xs text-red-300 z-20">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Language } from '../types';
+import {
+  LANGUAGES,
+  loadLanguageSettings,
+  MessageKey,
+  saveLanguageSettings,
+  translate,
+  TranslateVars,
+} from '../services/i18n';
+
+export interface I18n {
+  language: Language;
+  /** BCP-47 tag for the current language. */
+  locale: string;
+  autoDetect: boolean;
+  setLanguage: (language: Language) => void;
+  setAutoDetect: (autoDetect: boolean) => void;
+  t: (key: MessageKey, vars?: TranslateVars) => string;
+}
+
+// English without persistence, for anything rendered outside the provider.
+export const I18nContext = createContext<I18n>({
+  language: 'en',
+  locale: LANGUAGES.en.locale,
+  autoDetect: false,
+  setLanguage: () => {},
+  setAutoDetect: () => {},
+  t: (key, vars) => translate('en', key, vars),
+});
+
+/**
+ * Owns the persisted language settings; the app root provides the result through `I18nContext`.
+ * `defaults` fill placeholders every message may use, such as the tenant's firm name.
+ */
+export function useLanguageSettings(defaults?: TranslateVars): I18n {
+  const [settings, setSettings] = useState(loadLanguageSettings);
+
+  useEffect(() => {
+    saveLanguageSettings(settings);
+    document.documentElement.lang = settings.language;
+  }, [settings]);
+
+  const setLanguage = useCallback((language: Language) => setSettings(prev => ({ ...prev, language })), []);
+  const setAutoDetect = useCallback((autoDetect: boolean) => setSettings(prev => ({ ...prev, autoDetect })), []);
+  const t = useCallback(
+    (key: MessageKey, vars?: TranslateVars) => translate(settings.language, key, { ...defaults, ...vars }),
+    [settings.language, defaults],
+  );
+
+  return useMemo(() => ({
+    language: settings.language,
+    locale: LANGUAGES[settings.language].locale,
+    autoDetect: settings.autoDetect,
+    setLanguage,
+    setAutoDetect,
+    t,
+  }), [settings, setLanguage, setAutoDetect, t]);
+}
+
+export const useI18n = () => useContext(I18nContext);
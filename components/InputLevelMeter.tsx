@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+
+interface InputLevelMeterProps {
+  /** RMS level written by the capture handler about every 10 ms. */
+  levelRef: React.MutableRefObject<number>;
+  active: boolean;
+  bars?: number;
+}
+
+// RMS of ordinary speech sits well under 0.3; scale so talking fills most of the meter.
+const FULL_SCALE = 0.25;
+
+/**
+ * Microphone level bars. Reads the level on each animation frame and updates the
+ * DOM directly, so the meter doesn't re-render the whole consultation 60 times a second.
+ */
+export const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ levelRef, active, bars = 5 }) => {
+  const barRefs = useRef<(HTMLSpanElement | null)[]>([]);
+
+  useEffect(() => {
+    if (!active) {
+      barRefs.current.forEach(bar => bar && (bar.style.opacity = '0.2'));
+      return;
+    }
+    let frame = 0;
+    let smoothed = 0;
+    const draw = () => {
+      // Fast attack, slower release, like a VU meter.
+      const level = Math.min(1, levelRef.current / FULL_SCALE);
+      smoothed = level > smoothed ? level : smoothed * 0.85;
+      barRefs.current.forEach((bar, i) => {
+        if (bar) bar.style.opacity = smoothed > i / bars ? '1' : '0.2';
+      });
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [active, bars, levelRef]);
+
+  return (
+    <div className="flex items-end gap-0.5 h-4" aria-hidden="true">
+      {Array.from({ length: bars }, (_, i) => (
+        <span
+          key={i}
+          ref={el => { barRefs.current[i] = el; }}
+          className={`w-1 rounded-full transition-opacity duration-75 ${i >= bars - 1 ? 'bg-red-400' : 'bg-blue-400'}`}
+          style={{ height: `${40 + (i * 60) / (bars - 1)}%`, opacity: 0.2 }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { LANGUAGES } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+export const LanguagePicker: React.FC = () => {
+  const { language, setLanguage, autoDetect, setAutoDetect, t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`px-3 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all ${open ? 'bg-blue-500/20 text-blue-400 ring-1 ring-blue-500/30' : 'bg-white/5 text-slate-300 hover:bg-white/10'}`}
+        title={t('language.label')}
+        aria-label={t('language.label')}
+      >
+        {language}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 glass rounded-xl shadow-2xl p-4 space-y-4 z-50">
+          <div className="space-y-1.5">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('language.label')}</span>
+            {(Object.keys(LANGUAGES) as Language[]).map(code => (
+              <button
+                key={code}
+                onClick={() => { setLanguage(code); setOpen(false); }}
+                lang={code}
+                className={`w-full flex justify-between items-center px-3 py-2 rounded-lg border text-sm text-left transition-colors ${language === code ? 'border-blue-500/40 bg-blue-500/10 text-slate-100' : 'border-white/5 text-slate-300 hover:bg-white/5'}`}
+              >
+                <span>{LANGUAGES[code].nativeName}</span>
+                <span className="text-[10px] uppercase tracking-widest text-slate-500">{code}</span>
+              </button>
+            ))}
+          </div>
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoDetect}
+              onChange={e => setAutoDetect(e.target.checked)}
+              className="mt-0.5 accent-blue-500"
+            />
+            <span className="space-y-1">
+              <span className="block text-[10px] font-bold uppercase tracking-widest text-slate-400">{t('language.autoDetect')}</span>
+              <span className="block text-[10px] text-slate-500">{t('language.autoDetectHint')}</span>
+            </span>
+          </label>
+          <p className="text-[10px] text-slate-500">{t('language.voiceNote')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
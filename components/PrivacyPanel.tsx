@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { RedactionState, WatchlistEntry } from '../types';
+import { useI18n } from './I18nContext';
+
+interface PrivacyPanelProps {
+  grounding: boolean;
+  redaction: RedactionState;
+  watchlist: WatchlistEntry[];
+  onGroundingChange: (enabled: boolean) => void;
+  onRedactionToggle: (enabled: boolean) => void;
+  onWatchlistChange: (watchlist: WatchlistEntry[]) => void;
+}
+
+const inputClass = 'bg-slate-950 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/40 placeholder:text-slate-600';
+
+export const PrivacyPanel: React.FC<PrivacyPanelProps> = ({
+  grounding,
+  redaction,
+  watchlist,
+  onGroundingChange,
+  onRedactionToggle,
+  onWatchlistChange,
+}) => {
+  const [term, setTerm] = useState('');
+  const [kind, setKind] = useState<WatchlistEntry['kind']>('organization');
+  const { t } = useI18n();
+
+  const addTerm = () => {
+    const value = term.trim();
+    if (!value) return;
+    setTerm('');
+    if (watchlist.some(w => w.term.toLowerCase() === value.toLowerCase())) return;
+    onWatchlistChange([...watchlist, { term: value, kind }]);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-5 space-y-6">
+      <div className="space-y-2">
+        <label className="flex items-center justify-between gap-3 cursor-pointer">
+          <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{t('grounding.enabled')}</span>
+          <input
+            type="checkbox"
+            checked={grounding}
+            onChange={e => onGroundingChange(e.target.checked)}
+            className="accent-blue-500"
+          />
+        </label>
+        <p className="text-[11px] leading-relaxed text-slate-500">{t(grounding ? 'grounding.enabledHint' : 'grounding.off')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between gap-3 cursor-pointer">
+          <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{t('redaction.enabled')}</span>
+          <input
+            type="checkbox"
+            checked={redaction.enabled}
+            onChange={e => onRedactionToggle(e.target.checked)}
+            className="accent-blue-500"
+          />
+        </label>
+        <p className="text-[11px] leading-relaxed text-slate-500">{t(redaction.enabled ? 'redaction.enabledHint' : 'redaction.off')}</p>
+        <p className="text-[11px] leading-relaxed text-amber-500/80">{t('redaction.voiceNote')}</p>
+        <p className="text-[11px] leading-relaxed text-amber-500/80">{t('redaction.filesNote')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('redaction.watchlist')}</span>
+        <p className="text-[11px] text-slate-600">{t('redaction.watchlistHint')}</p>
+        <div className="flex gap-2">
+          <input
+            value={term}
+            onChange={e => setTerm(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addTerm()}
+            placeholder={t('redaction.termPlaceholder')}
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+          <select value={kind} onChange={e => setKind(e.target.value as WatchlistEntry['kind'])} className={inputClass}>
+            <option value="organization">{t('redaction.kind.organization')}</option>
+            <option value="person">{t('redaction.kind.person')}</option>
+          </select>
+        </div>
+        <button
+          onClick={addTerm}
+          disabled={!term.trim()}
+          className="w-full py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-30 text-[10px] font-bold uppercase tracking-widest transition-all"
+        >
+          {t('redaction.add')}
+        </button>
+        {watchlist.length > 0 && (
+          <ul className="space-y-1">
+            {watchlist.map(w => (
+              <li key={w.term} className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg bg-slate-950/60 text-xs">
+                <span className="text-slate-200 truncate">{w.term}</span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <span className="text-[9px] uppercase tracking-widest text-slate-500">{t(`redaction.kind.${w.kind}`)}</span>
+                  <button
+                    onClick={() => onWatchlistChange(watchlist.filter(x => x !== w))}
+                    className="text-slate-500 hover:text-red-400"
+                    title={t('redaction.remove', { term: w.term })}
+                    aria-label={t('redaction.remove', { term: w.term })}
+                  >
+                    ×
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{t('redaction.masked')}</span>
+        {redaction.entries.length ? (
+          <ul className="space-y-1">
+            {redaction.entries.map(e => (
+              <li key={e.placeholder} className="grid grid-cols-[auto_1fr] gap-x-3 px-3 py-1.5 rounded-lg bg-slate-950/60 text-xs">
+                <span className="font-mono text-blue-300">{e.placeholder}</span>
+                <span className="text-slate-200 truncate" title={e.original}>{e.original}</span>
+                <span className="col-span-2 text-[9px] uppercase tracking-widest text-slate-600">{t(`redaction.kind.${e.kind}`)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-[11px] text-slate-600">{t('redaction.none')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
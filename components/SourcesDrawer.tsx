@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Transcription } from '../types';
+import { useI18n } from './I18nContext';
+
+interface SourcesDrawerProps {
+  /** Citation link entries for one answer. */
+  sources: Transcription[];
+}
+
+export const SourcesDrawer: React.FC<SourcesDrawerProps> = ({ sources }) => {
+  const [open, setOpen] = useState(false);
+  const { t } = useI18n();
+  if (!sources.length) return null;
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-blue-300 transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={`transition-transform ${open ? 'rotate-90' : ''}`}><path d="m9 18 6-6-6-6"/></svg>
+        {t('grounding.sources', { count: sources.length })}
+      </button>
+      {open && (
+        <ol className="mt-2 space-y-1.5 pl-1">
+          {sources.map((s, i) => (
+            <li key={s.metadata?.url ?? i}>
+              <a
+                href={s.metadata?.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-baseline gap-2 text-xs text-blue-300 hover:text-blue-200"
+              >
+                <span className="text-slate-500">{i + 1}.</span>
+                <span className="truncate">{s.metadata?.title ?? s.text}</span>
+              </a>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
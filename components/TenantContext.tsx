@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+import { TenantConfig } from '../services/tenantConfig';
+
+// App renders a configuration error instead of the UI when no tenant loads, so consumers always have one.
+export const TenantContext = createContext<TenantConfig | null>(null);
+
+export function useTenant(): TenantConfig {
+  const tenant = useContext(TenantContext);
+  if (!tenant) throw new Error('useTenant must be used inside TenantContext.');
+  return tenant;
+}
@@ -1,258 +1,1072 @@
-import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Chat, GenerateContentResponse } from '@google/genai';
-import { Transcription } from '../types';
-import { decode, decodeAudioData } from '../services/audioUtils';
+import React, { useEffect, useRef, useState, useCallback, useMemo, useReducer } from 'react';
+import { Content } from '@google/genai';
+import {
+  Attachment,
+  Consultation,
+  ConsultationMode,
+  CrisisCase,
+  CrisisCaseField,
+  CrisisDocument,
+  DrillScenarioId,
+  DrillSession,
+  InputMode,
+  QueuedTurn,
+  RedactionState,
+  Transcription,
+  VoiceConfig,
+  VoiceName,
+  WatchlistEntry,
+} from '../types';
+import { AudioPlaybackEngine } from '../services/audioPlayback';
+import { SpeechQueue } from '../services/speechQueue';
+import { MicCapture, PcmBlob, startMicCapture } from '../services/audioCapture';
+import { VoiceActivityDetector } from '../services/voiceActivity';
+import { getModelProvider, LiveEvent, LiveSession, ToolCall } from '../services/providers';
+import { deriveTitle, newConsultationId, saveConsultation } from '../services/consultationStore';
+import { runChatTurn } from '../services/chatTurn';
+import {
+  applyCaseUpdate,
+  correctCaseField,
+  crisisCaseTool,
+  describeCaseForModel,
+  emptyCrisisCase,
+  unlockCaseField,
+  UPDATE_CRISIS_CASE,
+} from '../services/crisisCase';
+import { addUserVersion, applyDraft, describeDocumentsForModel, DRAFT_DOCUMENT, draftDocumentTool, revisionRequest } from '../services/documents';
+import {
+  buildHandoffPacket,
+  ESCALATE_TO_PRINCIPAL,
+  escalateTool,
+  escalationContact,
+  EscalationUrgency,
+  handoffLinks,
+} from '../services/escalation';
+import { downloadFile, generateBriefingSummary } from '../services/briefing';
+import { citationLinks, citationsFor, groundingInstruction } from '../services/grounding';
+import { drillInstruction, generateDrillDebrief } from '../services/drill';
+import { appendAuditEvent, AuditEvent, AuditEventType, AuditFields, renderAuditJsonl, withoutContent } from '../services/auditLog';
+import { connectionReducer, initialConnectionState } from '../services/connectionState';
+import { CHAT_BACKOFF, isAbortError, isRetryableError, LIVE_BACKOFF, withRetry } from '../services/retry';
+import { detectLanguage, LANGUAGES, languageInstruction, MessageKey, translate } from '../services/i18n';
+import {
+  loadWatchlist,
+  redactContent,
+  redactText,
+  restoreDeep,
+  restoreText,
+  saveWatchlist,
+  speakableText,
+  TextPrivacy,
+} from '../services/redaction';
+import {
+  ACCEPTED_FILE_TYPES,
+  attachedBytes,
+  attachmentParts,
+  AttachmentProblem,
+  checkAttachment,
+  readAttachment,
+} from '../services/attachments';
+import { useI18n } from './I18nContext';
+import { useTenant } from './TenantContext';
+import { brandVars, personaInstruction } from '../services/tenant';
+import { loadInputMode, loadVoiceConfig, paceDirection, saveInputMode, saveVoiceConfig } from '../services/voiceSettings';
+import { ExportMenu } from './ExportMenu';
+import { CrisisCasePanel } from './CrisisCasePanel';
+import { DocumentPane } from './DocumentPane';
+import { VoiceSettingsPanel } from './VoiceSettingsPanel';
+import { InputLevelMeter } from './InputLevelMeter';
+import { AttachmentList } from './AttachmentList';
+import { PrivacyPanel } from './PrivacyPanel';
+import { SourcesDrawer } from './SourcesDrawer';
+import { DrillPanel } from './DrillPanel';
+import { AuditPanel } from './AuditPanel';
 
-type AgentStatus = 'connecting' | 'listening' | 'processing' | 'awaiting' | 'buffering' | 'speaking';
+type SidePanel = 'case' | 'documents' | 'privacy' | 'drill' | 'log';
+
+// ~384 ms of audio kept while client VAD confirms that speech has started.
+const PRE_ROLL_CHUNKS = 3;
+
+const MAX_LANGUAGE_DETECTION_ATTEMPTS = 3;
+
+/** How far the voice has got through the reply being spoken. */
+interface SpokenProgress {
+  /** The transcript entry being spoken; null while the reply is still streaming. */
+  timestamp: number | null;
+  /** Characters of the displayed text spoken or being spoken. */
+  spokenChars: number;
+}
+
+// What the voice has reached reads normally; the rest stays dimmed until it is spoken.
+const SpokenText: React.FC<{ text: string; spokenChars: number }> = ({ text, spokenChars }) => (
+  <>
+    {text.slice(0, spokenChars)}
+    <span className="opacity-50">{text.slice(spokenChars)}</span>
+  </>
+);
+
+const QueuedBadge: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <div className="mt-2 flex items-center justify-end gap-1.5 text-[10px] font-bold uppercase tracking-widest text-blue-100/80" title={t('agent.queuedHint')}>
+      <svg xmlns="http://www.w3.org/2000/svg" width="11" height="11" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
+      {t('agent.queued')}
+    </div>
+  );
+};
 
 interface VoiceAgentProps {
   onExit: () => void;
-  preferredMode: 'voice' | 'message';
+  preferredMode: ConsultationMode;
+  /** Starts a tabletop drill instead of a consultation; resumed drills carry their own scenario. */
+  drillScenario?: DrillScenarioId;
+  /** A saved consultation to reopen instead of starting fresh. */
+  resume?: Consultation;
 }
 
-export const VoiceAgent: React.FC<VoiceAgentProps> = ({ onExit, preferredMode }) => {
-  const [status, setStatus] = useState<AgentStatus>('connecting');
+export const VoiceAgent: React.FC<VoiceAgentProps> = ({ onExit, preferredMode, drillScenario, resume }) => {
+  const [connection, dispatch] = useReducer(connectionReducer, undefined, () => initialConnectionState());
+  const { status } = connection;
+  const previousStatusRef = useRef(status);
+  const [outbox, setOutbox] = useState<QueuedTurn[]>(resume?.outbox ?? []);
+  const [sending, setSending] = useState(false);
   const [micEnabled, setMicEnabled] = useState(preferredMode === 'voice');
-  const [audioOutputEnabled, setAudioOutputEnabled] = useState(true);
+  const [inputMode, setInputMode] = useState<InputMode>(loadInputMode);
+  const [voiceLineOpen, setVoiceLineOpen] = useState(false);
+  const [callerTalking, setCallerTalking] = useState(false);
+  const [voiceConfig, setVoiceConfig] = useState<VoiceConfig>(loadVoiceConfig);
   const [transcriptions, setTranscriptions] = useState<Transcription[]>([]);
   const [streamingResponse, setStreamingResponse] = useState('');
+  const [spokenProgress, setSpokenProgress] = useState<SpokenProgress | null>(null);
   const [textInput, setTextInput] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [attachmentProblems, setAttachmentProblems] = useState<AttachmentProblem[]>([]);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const [crisisCase, setCrisisCase] = useState<CrisisCase>(resume?.crisisCase ?? emptyCrisisCase());
+  const [recentlyChanged, setRecentlyChanged] = useState<CrisisCaseField[]>([]);
+  const [casePanelOpen, setCasePanelOpen] = useState(true);
+  const [drill, setDrill] = useState<DrillSession | undefined>(resume?.drill ?? (drillScenario ? { scenario: drillScenario } : undefined));
+  const [debriefing, setDebriefing] = useState(false);
+  const [debriefError, setDebriefError] = useState<string | null>(null);
+  const [sidePanel, setSidePanel] = useState<SidePanel>(drill ? 'drill' : 'case');
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+  const [documents, setDocuments] = useState<CrisisDocument[]>(resume?.documents ?? []);
+  const [focusedDocumentId, setFocusedDocumentId] = useState<string | null>(null);
+  const [escalating, setEscalating] = useState(false);
+  const [redaction, setRedaction] = useState<RedactionState>(resume?.redaction ?? { enabled: true, entries: [] });
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>(loadWatchlist);
+  // Off by default: a grounded turn can't use the strategist's tools.
+  const [grounding, setGrounding] = useState(resume?.grounding ?? false);
   
-  const sessionRef = useRef<any>(null);
-  const chatRef = useRef<Chat | null>(null);
+  const { t, language, setLanguage, autoDetect } = useI18n();
+  const tenant = useTenant();
+  const provider = useMemo(() => getModelProvider(tenant.models), [tenant]);
+  // The scenario is fixed for the session; only the debrief changes.
+  const scenario = drill?.scenario;
+  // The reporter in a drill has no tools: no case file, no drafts, no escalation.
+  const strategistTools = useMemo(
+    () => (scenario ? [] : [crisisCaseTool, draftDocumentTool, escalateTool(tenant.principal)]),
+    [scenario, tenant],
+  );
+  const sessionRef = useRef<LiveSession | null>(null);
+  const historyRef = useRef<Content[]>([]);
   const audioContextInRef = useRef<AudioContext | null>(null);
-  const audioContextOutRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const playbackRef = useRef<AudioPlaybackEngine | null>(null);
+  const speechQueueRef = useRef<SpeechQueue | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
+  const voiceLineRef = useRef<'idle' | 'connecting' | 'open' | 'closed'>('idle');
+  const micEnabledRef = useRef(micEnabled);
+  const inputModeRef = useRef(inputMode);
+  const vadRef = useRef(new VoiceActivityDetector());
+  const callerTurnOpenRef = useRef(false);
+  const preRollRef = useRef<PcmBlob[]>([]);
+  const inputLevelRef = useRef(0);
+  const duckedRef = useRef(false);
+  const inputTranscriptRef = useRef('');
+  const outputTranscriptRef = useRef('');
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const initialized = useRef(false);
+  const consultationIdRef = useRef(resume?.id ?? newConsultationId());
+  const createdAtRef = useRef(resume?.createdAt ?? Date.now());
+  // Tool calls arrive inside long-lived callbacks, so they read the case through a ref.
+  const crisisCaseRef = useRef(crisisCase);
+  crisisCaseRef.current = crisisCase;
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+  const transcriptionsRef = useRef(transcriptions);
+  transcriptionsRef.current = transcriptions;
+  // Read by audio callbacks so settings changes never tear down the live session.
+  const voiceConfigRef = useRef(voiceConfig);
+  voiceConfigRef.current = voiceConfig;
+  const revisionInstructionRef = useRef<string | undefined>(undefined);
+  // Long-lived callbacks (the live session, tool calls) read the language through refs.
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  const autoDetectRef = useRef(autoDetect);
+  autoDetectRef.current = autoDetect;
+  // Resumed consultations already have the caller's language settled.
+  const languageSettledRef = useRef(!!resume);
+  const detectionAttemptsRef = useRef(0);
+  // The outbox is read and trimmed across awaits while it flushes, so the ref is updated with the state.
+  const outboxRef = useRef(outbox);
+  const flushingRef = useRef(false);
+  const converseRef = useRef<(queued: QueuedTurn) => Promise<boolean>>(async () => false);
+  const flushOutboxRef = useRef<() => void>(() => {});
+  // Aborted on unmount so pending retries and in-flight requests stop with the consultation.
+  const lifetimeRef = useRef(new AbortController());
+  // Masking runs inside streaming and live callbacks, which read placeholders through refs.
+  const redactionRef = useRef(redaction);
+  redactionRef.current = redaction;
+  const watchlistRef = useRef(watchlist);
+  watchlistRef.current = watchlist;
+  const groundingRef = useRef(grounding);
+  groundingRef.current = grounding;
+
+  // Message text is logged only while redaction is off.
+  const audit = useCallback((type: AuditEventType, fields: AuditFields = {}) => {
+    setAuditEvents(prev => appendAuditEvent(prev, type, fields, !redactionRef.current.enabled));
+  }, []);
 
-  const WELCOME_TEXT = "Welcome to Rich Klein Crisis Management. How can I help you today?";
+  const WELCOME_TEXT = scenario ? t(`drill.${scenario}.opening`) : tenant.persona.welcome?.[language] ?? t('agent.welcome');
 
-  const SYSTEM_INSTRUCTION = useMemo(() => `
-Identity: You are the Lead AI Crisis Strategist for Rich Klein Crisis Management (www.richkleincrisis.com).
-Role: Provide immediate, high-stakes strategic counsel for organizations facing reputational or operational crises.
-Tone: Calm, authoritative, analytical, and professional. 
-Background: You represent Rich Klein, leveraging 40 years of combined Journalism and PR experience.
-Privacy: If requested for a secure line, advise: "I understand the sensitivity. For a private, secure evaluation, please email rich@richkleincrisis.com or contact us via WhatsApp."
-`, []);
+  const SYSTEM_INSTRUCTION = useMemo(() => personaInstruction(tenant, ESCALATE_TO_PRINCIPAL), [tenant]);
 
-  const stopAllAudio = useCallback(() => {
-    sourcesRef.current.forEach(s => {
-      try { s.stop(); } catch (e) {}
+  const redact = useCallback((text: string) => {
+    const current = redactionRef.current;
+    if (!current.enabled) return text;
+    const { text: masked, entries } = redactText(text, current.entries, watchlistRef.current);
+    if (entries !== current.entries) {
+      // Set the ref now so the rest of this turn reuses the new placeholders.
+      redactionRef.current = { ...current, entries };
+      setRedaction(redactionRef.current);
+    }
+    return masked;
+  }, []);
+
+  const restore = useCallback((text: string) => restoreText(text, redactionRef.current.entries), []);
+
+  const privacy = useMemo<TextPrivacy>(() => ({ redact, restore }), [redact, restore]);
+
+  const buildInstruction = useCallback(
+    () => scenario
+      ? drillInstruction(scenario, transcriptionsRef.current.find(t => t.type === 'model')?.text ?? '')
+        + languageInstruction(languageRef.current)
+      : SYSTEM_INSTRUCTION
+        + languageInstruction(languageRef.current)
+        + groundingInstruction(groundingRef.current)
+        + redact(describeCaseForModel(crisisCaseRef.current))
+        + redact(describeDocumentsForModel(documentsRef.current)),
+    [scenario, SYSTEM_INSTRUCTION, redact],
+  );
+
+  const escalate = useCallback((summary: string, urgency?: EscalationUrgency, reason?: string) => {
+    const packet = buildHandoffPacket({
+      crisisCase: crisisCaseRef.current,
+      transcriptions: transcriptionsRef.current,
+      summary,
+      urgency,
+      reason,
+    });
+    setTranscriptions(prev => [
+      ...prev,
+      { text: translate(languageRef.current, 'agent.escalationReady', { ...brandVars(tenant), urgency: packet.urgency }), type: 'model', timestamp: Date.now() },
+      ...handoffLinks(packet, escalationContact(tenant.principal), languageRef.current),
+    ]);
+    return packet;
+  }, [tenant]);
+
+  const runToolCall = useCallback((masked: ToolCall): Record<string, unknown> => {
+    // The case file and drafts hold the real values; only the model sees placeholders.
+    const call = { ...masked, args: restoreDeep(masked.args, redactionRef.current.entries) };
+    if (call.name === UPDATE_CRISIS_CASE) {
+      const { next, changed } = applyCaseUpdate(crisisCaseRef.current, call.args);
+      crisisCaseRef.current = next;
+      setCrisisCase(next);
+      setRecentlyChanged(changed);
+      return { updated: changed, skippedVerified: next.lockedFields };
+    }
+    if (call.name === DRAFT_DOCUMENT) {
+      const { documents: next, document } = applyDraft(documentsRef.current, call.args, revisionInstructionRef.current);
+      documentsRef.current = next;
+      setDocuments(next);
+      setFocusedDocumentId(document.id);
+      setCasePanelOpen(true);
+      setSidePanel('documents');
+      return { documentId: document.id, version: document.versions.length, status: 'Delivered to the client\'s document pane.' };
+    }
+    if (call.name === ESCALATE_TO_PRINCIPAL) {
+      const urgency = ['routine', 'urgent', 'immediate'].includes(call.args.urgency as string) ? call.args.urgency as EscalationUrgency : undefined;
+      const packet = escalate(String(call.args.summary ?? ''), urgency, typeof call.args.reason === 'string' ? call.args.reason : undefined);
+      return { status: 'Contact options shown to the client.', urgency: packet.urgency };
+    }
+    return { error: `Unknown tool: ${call.name}` };
+  }, [escalate]);
+
+  const handleCaseCorrection = useCallback(<F extends CrisisCaseField>(field: F, value: CrisisCase[F]) => {
+    setCrisisCase(prev => correctCaseField(prev, field, value));
+  }, []);
+
+  const handleCaseUnlock = useCallback((field: CrisisCaseField) => {
+    setCrisisCase(prev => unlockCaseField(prev, field));
+  }, []);
+
+  // Status follows the playback engine; interrupts no longer force 'listening' over an in-flight request.
+  useEffect(() => {
+    const engine = new AudioPlaybackEngine();
+    engine.setVolume(voiceConfigRef.current.volume);
+    engine.setMuted(voiceConfigRef.current.muted);
+    playbackRef.current = engine;
+    const unsubscribe = engine.on(event => {
+      dispatch({ type: 'playback', event });
+      if (event === 'idle' || event === 'interrupted') setSpokenProgress(null);
     });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
-    setStatus('listening');
+    return () => {
+      unsubscribe();
+      engine.close();
+      playbackRef.current = null;
+    };
+  }, []);
+
+  const stopAllAudio = useCallback(() => {
+    speechQueueRef.current?.cancel();
+    speechQueueRef.current = null;
+    playbackRef.current?.interrupt();
   }, []);
 
   const resumeAudio = useCallback(async () => {
-    if (audioContextOutRef.current?.state === 'suspended') {
-      await audioContextOutRef.current.resume();
-    }
+    await playbackRef.current?.resume();
   }, []);
 
-  const playTTS = useCallback(async (text: string) => {
-    if (!audioOutputEnabled) return;
+  const playTTS = useCallback(async (text: string, voiceName?: VoiceName) => {
+    const config = voiceConfigRef.current;
+    const engine = playbackRef.current;
+    if (config.muted || !engine) return;
     
-    setStatus('buffering');
+    const ticket = engine.markBuffering();
+    const requestedAt = performance.now();
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-        },
+      const base64Audio = await provider.synthesizeSpeech({
+        text,
+        voiceName: voiceName ?? config.voiceName,
+        speakingRate: config.speakingRate,
+        languageCode: LANGUAGES[languageRef.current].locale,
       });
-
-      const base64Audio = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
-      if (base64Audio && audioContextOutRef.current) {
-        const ctx = audioContextOutRef.current;
-        await resumeAudio();
-        setStatus('speaking');
-        const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-        const source = ctx.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(ctx.destination);
-        source.onended = () => {
-          sourcesRef.current.delete(source);
-          if (sourcesRef.current.size === 0) setStatus('listening');
-        };
-        const startTime = Math.max(ctx.currentTime, nextStartTimeRef.current);
-        source.start(startTime);
-        nextStartTimeRef.current = startTime + audioBuffer.duration;
-        sourcesRef.current.add(source);
+      audit('tts', { ms: performance.now() - requestedAt, detail: { chars: text.length, voice: voiceName ?? config.voiceName, audio: !!base64Audio } });
+      if (base64Audio) {
+        await engine.resume();
+        await engine.enqueue(base64Audio, ticket);
       } else {
-        setStatus('listening');
+        engine.cancelBuffering();
       }
     } catch (e) { 
-      console.warn("TTS initialization issue, falling back to listening.");
-      setStatus('listening');
+      console.warn("TTS initialization issue, falling back to listening.", e);
+      audit('tts-failed', { ms: performance.now() - requestedAt, detail: { error: e instanceof Error ? e.message : String(e) } });
+      engine.cancelBuffering();
+      dispatch({ type: 'speech-failed', reason: 'agent.speechFailed' });
     }
-  }, [audioOutputEnabled, resumeAudio]);
+  }, [provider, audit]);
 
-  const initStrategicEngine = useCallback(() => {
-    try {
-      // Use the injected API_KEY. Do not block if it looks like a variable placeholder.
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      chatRef.current = ai.chats.create({ 
-        model: 'gemini-3-pro-preview', 
-        config: { systemInstruction: SYSTEM_INSTRUCTION } 
-      });
-      return true;
-    } catch (e) {
-      console.error("Critical AI Core Initialization Failure:", e);
-      return false;
-    }
-  }, [SYSTEM_INSTRUCTION]);
+  // One sentence of a streamed reply. Masked values are described rather than read out,
+  // since speech is synthesized by a hosted model too.
+  const synthesizeSentence = useCallback(async (sentence: string, signal: AbortSignal) => {
+    const config = voiceConfigRef.current;
+    const { enabled, entries } = redactionRef.current;
+    const requestedAt = performance.now();
+    const audio = await provider.synthesizeSpeech({
+      text: enabled ? speakableText(sentence, entries, languageRef.current) : restore(sentence),
+      voiceName: config.voiceName,
+      speakingRate: config.speakingRate,
+      languageCode: LANGUAGES[languageRef.current].locale,
+      signal,
+    });
+    audit('tts', { ms: performance.now() - requestedAt, detail: { chars: sentence.length, voice: config.voiceName, audio: !!audio, sentence: true } });
+    return audio;
+  }, [provider, restore, audit]);
+
+  const initStrategicEngine = useCallback((history: Content[] = []) => {
+    // Providers are stateless: the strategist's context is the history we send with each turn.
+    historyRef.current = history;
+  }, []);
 
   useEffect(() => {
     if (initialized.current) return;
     initialized.current = true;
 
-    // Direct greeting entry
-    setTranscriptions([{ text: WELCOME_TEXT, type: 'model', timestamp: Date.now() }]);
+    audit('session-start', { detail: { mode: preferredMode, resumed: !!resume, language: languageRef.current, scenario } });
+
+    // Direct greeting entry, or the saved transcript when reopening a consultation
+    setTranscriptions(resume ? resume.transcriptions : [{ text: WELCOME_TEXT, type: 'model', timestamp: Date.now() }]);
     
-    // Core engine initialization
-    const engineReady = initStrategicEngine();
+    // Core engine initialization, rehydrated with the saved chat history if resuming
+    initStrategicEngine(resume?.history);
     
-    if (engineReady) {
-      audioContextInRef.current = new AudioContext({ sampleRate: 16000 });
-      audioContextOutRef.current = new AudioContext({ sampleRate: 24000 });
-      
-      // Delay greeting audio to ensure audio context is ready
-      setTimeout(() => playTTS(WELCOME_TEXT), 500);
-
-      if (micEnabled) {
-        const setupVoiceChannel = async () => {
-          try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            streamRef.current = stream;
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-            const sessionPromise = ai.live.connect({
-              model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-              callbacks: {
-                onopen: () => setStatus('listening'),
-                onmessage: async (message: LiveServerMessage) => {
-                  if (message.serverContent?.interrupted) stopAllAudio();
-                  const base64Audio = message.serverContent?.modelTurn?.parts?.find(p => p.inlineData)?.inlineData?.data;
-                  if (base64Audio && audioOutputEnabled && audioContextOutRef.current) {
-                    setStatus('buffering');
-                    const ctx = audioContextOutRef.current;
-                    const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-                    const source = ctx.createBufferSource();
-                    source.buffer = audioBuffer;
-                    source.connect(ctx.destination);
-                    const startTime = Math.max(ctx.currentTime, nextStartTimeRef.current);
-                    source.start(startTime);
-                    nextStartTimeRef.current = startTime + audioBuffer.duration;
-                    sourcesRef.current.add(source);
-                    setStatus('speaking');
-                    source.onended = () => {
-                      sourcesRef.current.delete(source);
-                      if (sourcesRef.current.size === 0) setStatus('listening');
-                    };
-                  }
-                },
-                onerror: () => setStatus('listening')
-              },
-              config: { responseModalities: [Modality.AUDIO], systemInstruction: SYSTEM_INSTRUCTION }
-            });
-            sessionRef.current = await sessionPromise;
-          } catch (e) {
-            console.warn("Secure voice channel failed to establish. defaulting to tactical chat.");
-            setStatus('listening');
-          }
-        };
-        setupVoiceChannel();
-      } else {
-        setStatus('listening');
+    // Delay greeting audio to ensure audio context is ready
+    if (!resume && voiceConfigRef.current.autoSpeak) setTimeout(() => playTTS(WELCOME_TEXT), 500);
+    // The voice channel effect takes over status when the microphone is on.
+    if (!micEnabledRef.current) dispatch({ type: 'ready' });
+  }, [WELCOME_TEXT, playTTS, initStrategicEngine, resume, audit, preferredMode, scenario]);
+
+  // Follows the caller's language from their opening message. Greetings too short to tell
+  // ("Hi") don't count, so detection gives up only after a few inconclusive messages.
+  const matchCallerLanguage = useCallback((text: string) => {
+    if (languageSettledRef.current || !autoDetectRef.current) return;
+    const detected = detectLanguage(text);
+    if (!detected && ++detectionAttemptsRef.current < MAX_LANGUAGE_DETECTION_ATTEMPTS) return;
+    languageSettledRef.current = true;
+    if (!detected || detected === languageRef.current) return;
+    // Set the ref now so the reply to this very message is already in the caller's language.
+    languageRef.current = detected;
+    setLanguage(detected);
+  }, [setLanguage]);
+
+  const beginCallerTurn = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || callerTurnOpenRef.current) return;
+    callerTurnOpenRef.current = true;
+    // Barge-in: the strategist stops as soon as the caller takes the floor.
+    stopAllAudio();
+    duckedRef.current = false;
+    playbackRef.current?.duck(false);
+    session.startActivity();
+    preRollRef.current.forEach(blob => session.sendAudio(blob));
+    preRollRef.current = [];
+    setCallerTalking(true);
+  }, [stopAllAudio]);
+
+  const endCallerTurn = useCallback(() => {
+    if (!callerTurnOpenRef.current) return;
+    callerTurnOpenRef.current = false;
+    sessionRef.current?.endActivity();
+    setCallerTalking(false);
+  }, []);
+
+  const handleLiveEvent = useCallback(async (event: LiveEvent) => {
+    if (event.interrupted) {
+      playbackRef.current?.duck(false);
+      stopAllAudio();
+    }
+    if (event.toolCalls) {
+      // Every call needs a response or the live session waits on it; failures go back as errors, as in typed chat.
+      sessionRef.current?.sendToolResponses(event.toolCalls.map(call => {
+        try {
+          return { id: call.id, name: call.name, response: runToolCall(call) };
+        } catch (e) {
+          console.warn(`Tool call ${call.name} failed.`, e);
+          return { id: call.id, name: call.name, response: { error: e instanceof Error ? e.message : String(e) } };
+        }
+      }));
+    }
+    if (event.usage) audit('usage', { detail: { channel: 'live', ...event.usage } });
+    if (event.inputTranscript) inputTranscriptRef.current += event.inputTranscript;
+    if (event.outputTranscript) outputTranscriptRef.current += event.outputTranscript;
+    if (event.turnComplete) {
+      const spoken: Transcription[] = [];
+      const callerText = inputTranscriptRef.current.trim();
+      const strategistText = outputTranscriptRef.current.trim();
+      if (callerText) {
+        spoken.push({ text: callerText, type: 'user', timestamp: Date.now() });
+        matchCallerLanguage(callerText);
       }
-    } else {
-      // Fallback state if engine init fails
-      setStatus('listening');
+      if (strategistText) spoken.push({ text: restore(strategistText), type: 'model', timestamp: Date.now() });
+      spoken.forEach(t => audit(t.type === 'user' ? 'message-sent' : 'message-received', {
+        detail: { channel: 'live', chars: t.text.length },
+        content: t.text,
+      }));
+      inputTranscriptRef.current = '';
+      outputTranscriptRef.current = '';
+      if (spoken.length) setTranscriptions(prev => [...prev, ...spoken]);
+      // Spoken turns join the chat history so typed follow-ups keep the full context.
+      // The audio itself can't be masked, but what is kept for later turns can.
+      spoken.forEach(t => {
+        historyRef.current = [...historyRef.current, { role: t.type === 'user' ? 'user' : 'model', parts: [{ text: redact(t.text) }] }];
+      });
     }
+    if (event.audio && !voiceConfigRef.current.muted) {
+      await playbackRef.current?.enqueue(event.audio);
+    }
+  }, [stopAllAudio, runToolCall, matchCallerLanguage, redact, restore, audit]);
 
-    return () => {
-      sessionRef.current?.close();
+  const handleMicChunk = useCallback((blob: PcmBlob) => {
+    if (!micEnabledRef.current) return;
+    if (callerTurnOpenRef.current) {
+      sessionRef.current?.sendAudio(blob);
+    } else if (inputModeRef.current === 'vad') {
+      // Keep a short pre-roll so the first syllable isn't clipped while VAD confirms speech.
+      preRollRef.current = [...preRollRef.current.slice(-(PRE_ROLL_CHUNKS - 1)), blob];
+    }
+  }, []);
+
+  const handleMicLevel = useCallback((level: number) => {
+    inputLevelRef.current = micEnabledRef.current ? level : 0;
+    if (!micEnabledRef.current || inputModeRef.current !== 'vad') return;
+    const activity = vadRef.current.process(level);
+    // Duck under the caller while the detector waits out its minimum speech length.
+    const duck = !callerTurnOpenRef.current && level >= vadRef.current.threshold && !!playbackRef.current?.isPlaying;
+    if (duck !== duckedRef.current) {
+      duckedRef.current = duck;
+      playbackRef.current?.duck(duck);
+    }
+    if (activity === 'speech-start') beginCallerTurn();
+    if (activity === 'speech-end') endCallerTurn();
+  }, [beginCallerTurn, endCallerTurn]);
+
+  // Opened the first time the microphone is switched on, then kept for the whole consultation.
+  // Muting only stops audio being sent, so toggling the mic never tears the session down.
+  // A dropped session is reopened with backoff while capture keeps running.
+  useEffect(() => {
+    if (!micEnabled || voiceLineRef.current !== 'idle') return;
+    voiceLineRef.current = 'connecting';
+    dispatch({ type: 'line-connecting' });
+    const signal = lifetimeRef.current.signal;
+
+    const shutDownVoiceLine = (reason: MessageKey) => {
+      voiceLineRef.current = 'idle';
+      captureRef.current?.stop();
+      captureRef.current = null;
       streamRef.current?.getTracks().forEach(t => t.stop());
+      streamRef.current = null;
+      setVoiceLineOpen(false);
+      setMicEnabled(false);
+      dispatch({ type: 'line-failed', reason });
+    };
+
+    // Live tokens are single-use, so every attempt mints a fresh session.
+    const openSession = () => withRetry(async () => {
+      let session: LiveSession | null = null;
+      const onLost = (error?: unknown) => {
+        // Errors while connecting reject connectLive instead; only the current open session reconnects.
+        if (!session || sessionRef.current !== session || voiceLineRef.current !== 'open') return;
+        console.warn("Voice line dropped; reconnecting.", error);
+        sessionRef.current = null;
+        voiceLineRef.current = 'connecting';
+        callerTurnOpenRef.current = false;
+        setCallerTalking(false);
+        attach();
+      };
+      const pace = paceDirection(voiceConfigRef.current.speakingRate);
+      session = await provider.connectLive({
+        systemInstruction: buildInstruction() + (pace ? `\nDelivery: Speak ${pace}.` : ''),
+        voiceName: voiceConfigRef.current.voiceName,
+        languageCode: LANGUAGES[languageRef.current].locale,
+        tools: strategistTools,
+        manualActivity: true,
+        callbacks: {
+          onOpen: () => audit('live-open'),
+          onEvent: handleLiveEvent,
+          onError: error => {
+            audit('live-error', { detail: { error: error instanceof Error ? error.message : String(error) } });
+            onLost(error);
+          },
+          onClose: () => {
+            audit('live-close');
+            onLost();
+          },
+        },
+      });
+      return session;
+    }, {
+      ...LIVE_BACKOFF,
+      signal,
+      shouldRetry: e => !signal.aborted && isRetryableError(e),
+      onRetry: (attempt, delayMs, e) => {
+        console.warn(`Voice line unavailable; retrying in ${delayMs} ms.`, e);
+        dispatch({ type: 'retrying', attempt, of: LIVE_BACKOFF.retries, channel: 'voice-line' });
+      },
+    });
+
+    const attach = async () => {
+      try {
+        const session = await openSession();
+        // The consultation may have been closed while the line was connecting.
+        if (voiceLineRef.current === 'closed') {
+          session.close();
+          return;
+        }
+        sessionRef.current = session;
+        voiceLineRef.current = 'open';
+        setVoiceLineOpen(true);
+        dispatch({ type: 'line-open' });
+      } catch (e) {
+        if (voiceLineRef.current === 'closed' || isAbortError(e)) return;
+        console.warn("Secure voice channel failed to establish. defaulting to tactical chat.", e);
+        audit('live-error', { detail: { phase: 'connect', error: e instanceof Error ? e.message : String(e) } });
+        shutDownVoiceLine('agent.lineFailed');
+      }
+    };
+
+    // Read through a function: the line can close during any await, which narrowing can't see.
+    const lineClosed = () => voiceLineRef.current === 'closed';
+
+    const setupVoiceChannel = async () => {
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+      } catch (e) {
+        console.warn("Microphone unavailable; defaulting to tactical chat.", e);
+        if (voiceLineRef.current !== 'closed') shutDownVoiceLine('agent.micUnavailable');
+        return;
+      }
+      if (voiceLineRef.current === 'closed') {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      streamRef.current = stream;
+      try {
+        // Input runs at the device rate; the capture worklet resamples to 16 kHz.
+        audioContextInRef.current ??= new AudioContext();
+        captureRef.current = await startMicCapture(audioContextInRef.current, stream, {
+          onChunk: handleMicChunk,
+          onLevel: handleMicLevel,
+        });
+      } catch (e) {
+        // The worklet failed to load or the browser refused the AudioContext; release the mic so it can be retried.
+        console.warn("Microphone capture failed to start; defaulting to tactical chat.", e);
+        audit('live-error', { detail: { phase: 'capture', error: e instanceof Error ? e.message : String(e) } });
+        if (!lineClosed()) shutDownVoiceLine('agent.lineFailed');
+        return;
+      }
+      await attach();
+    };
+    setupVoiceChannel().catch(e => {
+      console.warn("Voice channel setup failed.", e);
+      if (!lineClosed()) shutDownVoiceLine('agent.lineFailed');
+    });
+  }, [micEnabled, provider, strategistTools, buildInstruction, handleLiveEvent, handleMicChunk, handleMicLevel, audit]);
+
+  useEffect(() => {
+    micEnabledRef.current = micEnabled;
+    if (!micEnabled) {
+      endCallerTurn();
+      vadRef.current.reset();
+      preRollRef.current = [];
+      inputLevelRef.current = 0;
+    }
+  }, [micEnabled, endCallerTurn]);
+
+  useEffect(() => {
+    inputModeRef.current = inputMode;
+    saveInputMode(inputMode);
+    endCallerTurn();
+    vadRef.current.reset();
+  }, [inputMode, endCallerTurn]);
+
+  // Push-to-talk on the spacebar, unless the user is typing.
+  useEffect(() => {
+    if (inputMode !== 'push-to-talk' || !voiceLineOpen || !micEnabled) return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && !!e.target.closest('input, textarea, select, [contenteditable]');
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      beginCallerTurn();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      endCallerTurn();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
     };
-  }, [SYSTEM_INSTRUCTION, WELCOME_TEXT, playTTS, initStrategicEngine, micEnabled, stopAllAudio, audioOutputEnabled]);
+  }, [inputMode, voiceLineOpen, micEnabled, beginCallerTurn, endCallerTurn]);
+
+  useEffect(() => () => {
+    voiceLineRef.current = 'closed';
+    lifetimeRef.current.abort();
+    captureRef.current?.stop();
+    captureRef.current = null;
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    audioContextInRef.current?.close();
+  }, []);
 
   useEffect(() => { 
     if (chatEndRef.current) chatEndRef.current.scrollIntoView({ behavior: 'smooth' });
   }, [transcriptions, streamingResponse]);
 
+  // Every status transition, with the retry, degradation or failure behind it.
+  useEffect(() => {
+    const from = previousStatusRef.current;
+    if (from === connection.status) return;
+    previousStatusRef.current = connection.status;
+    audit('status', {
+      detail: {
+        from,
+        to: connection.status,
+        retry: connection.retry ? `${connection.retry.channel} ${connection.retry.attempt}/${connection.retry.of}` : undefined,
+        degraded: connection.degraded?.reason,
+        error: connection.error ?? undefined,
+      },
+    });
+  }, [connection, audit]);
+
+  // Persist after every transcript change; a consultation is only worth saving once the caller has spoken.
+  useEffect(() => {
+    if (!transcriptions.some(t => t.type === 'user')) return;
+    saveConsultation({
+      id: consultationIdRef.current,
+      mode: preferredMode,
+      title: deriveTitle({ transcriptions }),
+      createdAt: createdAtRef.current,
+      updatedAt: Date.now(),
+      transcriptions,
+      history: historyRef.current,
+      crisisCase,
+      documents,
+      redaction,
+      grounding,
+      tenant: { id: tenant.id, version: tenant.version },
+      drill,
+      outbox,
+    }).catch(e => console.warn("Consultation could not be saved locally.", e));
+  }, [transcriptions, preferredMode, crisisCase, documents, redaction, grounding, tenant, drill, outbox]);
+
+  useEffect(() => {
+    saveWatchlist(watchlist);
+  }, [watchlist]);
+
+  useEffect(() => {
+    saveVoiceConfig(voiceConfig);
+    playbackRef.current?.setVolume(voiceConfig.volume);
+    playbackRef.current?.setMuted(voiceConfig.muted);
+  }, [voiceConfig]);
+
+  // Let the change highlight fade once it has been seen.
+  useEffect(() => {
+    if (!recentlyChanged.length) return;
+    const timer = setTimeout(() => setRecentlyChanged([]), 2500);
+    return () => clearTimeout(timer);
+  }, [recentlyChanged]);
+
+  const handleAddFiles = async (files: File[]) => {
+    const problems: AttachmentProblem[] = [];
+    const queued = [...pendingAttachments];
+    const earlierBytes = attachedBytes(transcriptionsRef.current);
+    for (const file of files) {
+      const problem = checkAttachment(file, queued, earlierBytes);
+      if (problem) {
+        problems.push(problem);
+        continue;
+      }
+      try {
+        queued.push(await readAttachment(file));
+      } catch (e) {
+        console.warn(`Attachment ${file.name} could not be read.`, e);
+        problems.push({ key: 'attachments.errorRead', vars: { name: file.name } });
+      }
+    }
+    setPendingAttachments(queued);
+    setAttachmentProblems(problems);
+  };
+
   const handleSendText = async () => {
     const msg = textInput.trim();
-    if (!msg) return;
+    const attachments = pendingAttachments;
+    if ((!msg && !attachments.length) || sending) return;
+    if (msg) matchCallerLanguage(msg);
 
     await resumeAudio();
-    setTranscriptions(prev => [...prev, { text: msg, type: 'user', timestamp: Date.now() }]);
+    const now = Date.now();
+    setTranscriptions(prev => [...prev, { text: msg, type: 'user', timestamp: now, ...(attachments.length ? { attachments } : {}) }]);
     setTextInput('');
+    setPendingAttachments([]);
+    setAttachmentProblems([]);
+    await send({ role: 'user', parts: [...attachmentParts(attachments), ...(msg ? [{ text: msg }] : [])] }, { entryTimestamp: now });
+  };
+
+  const handleRefineDocument = async (id: string, instruction?: string) => {
+    const doc = documentsRef.current.find(d => d.id === id);
+    if (!doc) return;
+    await send(revisionRequest(doc, instruction), { quiet: true, revision: instruction ?? 'Regenerated' });
+  };
+
+  const handleEscalateClick = async () => {
+    // The contact options are built locally, so a client who has lost the connection still gets them at once.
+    if (!navigator.onLine) {
+      escalate('Summary unavailable offline; see case details and recent exchange below.', undefined, 'Requested by the client while offline.');
+      return;
+    }
+    setEscalating(true);
+    try {
+      const { summary } = await generateBriefingSummary(provider, transcriptionsRef.current, privacy);
+      escalate(summary, undefined, 'Requested by the client.');
+    } catch (e) {
+      console.warn("Escalation summary unavailable; sending case details only.", e);
+      escalate('Summary unavailable; see case details and recent exchange below.', undefined, 'Requested by the client.');
+    } finally {
+      setEscalating(false);
+    }
+  };
+
+  const handleDebriefClick = async () => {
+    if (!drill) return;
     stopAllAudio();
-    
-    // Resilience: ensure engine is active before sending
-    if (!chatRef.current) {
-      if (!initStrategicEngine()) {
-        setTranscriptions(prev => [...prev, { text: "Strategic Link dropped. Attempting to re-establish secure connection...", type: 'model', timestamp: Date.now() }]);
-        setStatus('listening');
-        // Retry init
-        initStrategicEngine();
-      }
+    setDebriefing(true);
+    setDebriefError(null);
+    setSidePanel('drill');
+    setCasePanelOpen(true);
+    try {
+      const debrief = await generateDrillDebrief(provider, transcriptionsRef.current, drill.scenario, languageRef.current, redaction.enabled ? privacy : undefined);
+      setDrill(prev => prev && { ...prev, debrief });
+    } catch (e) {
+      console.warn("Drill debrief unavailable.", e);
+      setDebriefError(t('drill.debriefFailed'));
+    } finally {
+      setDebriefing(false);
     }
+  };
+
+  // The turn being sent is no longer waiting, even though it stays in the outbox until its reply arrives.
+  const queuedEntries = useMemo(
+    () => new Set((sending ? outbox.slice(1) : outbox).map(q => q.entryTimestamp)),
+    [outbox, sending],
+  );
+
+  const loggedEvents = useMemo(() => (redaction.enabled ? withoutContent(auditEvents) : auditEvents), [redaction.enabled, auditEvents]);
+
+  const handleExportLog = () => {
+    const id = consultationIdRef.current;
+    const jsonl = renderAuditJsonl({
+      consultationId: id,
+      mode: preferredMode,
+      provider: provider.id,
+      tenant: `${tenant.id}@${tenant.version}`,
+      scenario,
+      contentLogged: !redaction.enabled,
+      userAgent: navigator.userAgent,
+    }, loggedEvents);
+    downloadFile(`session-log-${new Date().toISOString().slice(0, 10)}-${id.slice(0, 8)}.jsonl`, jsonl, 'application/x-ndjson');
+  };
 
-    setStatus('processing');
+  const handleSaveDocumentEdit = (id: string, content: string) => {
+    setDocuments(prev => addUserVersion(prev, id, content));
+  };
+
+  /**
+   * Sends one queued turn to the strategist and takes it out of the outbox once the reply has arrived.
+   * Quiet turns (document revisions) stay out of the transcript and are not spoken. Resolves false if
+   * the turn was not delivered, leaving it at the head of the outbox.
+   */
+  const converse = async ({ id, turn: userTurn, quiet, revision }: QueuedTurn): Promise<boolean> => {
+    stopAllAudio();
+    
+    dispatch({ type: 'chat-sending' });
+    setSending(true);
+    const signal = lifetimeRef.current.signal;
+    revisionInstructionRef.current = revision;
+    let started = false;
+    const outgoing = redactContent(userTurn, redact);
+    const typed = userTurn.parts?.map(p => p.text ?? '').join('') ?? '';
+    audit('message-sent', {
+      detail: { channel: 'chat', chars: typed.length, files: userTurn.parts?.filter(p => p.inlineData).length ?? 0, quiet },
+      content: typed,
+    });
+    let attemptStartedAt = performance.now();
+    // The reply is spoken sentence by sentence as it streams, not after it completes.
+    let reply = '';
+    let entryTimestamp: number | null = null;
+    const engine = playbackRef.current;
+    const speech = !quiet && engine && voiceConfigRef.current.autoSpeak && !voiceConfigRef.current.muted
+      ? new SpeechQueue({
+          engine,
+          synthesize: synthesizeSentence,
+          onSentence: end => setSpokenProgress({ timestamp: entryTimestamp, spokenChars: restore(reply.slice(0, end)).length }),
+          onError: e => {
+            console.warn("TTS initialization issue, falling back to listening.", e);
+            audit('tts-failed', { detail: { error: e instanceof Error ? e.message : String(e) } });
+            dispatch({ type: 'speech-failed', reason: 'agent.speechFailed' });
+          },
+        })
+      : null;
+    speechQueueRef.current = speech;
     try {
-      setStatus('awaiting');
-      const stream = await chatRef.current!.sendMessageStream({ message: msg });
-      let fullText = '';
-      for await (const chunk of stream) { 
-        const c = chunk as GenerateContentResponse;
-        fullText += c.text || ''; 
-        setStreamingResponse(fullText); 
-      }
-      setTranscriptions(prev => [...prev, { text: fullText, type: 'model', timestamp: Date.now() }]);
+      const { text: fullText, history, sources, usage } = await withRetry(() => {
+        dispatch({ type: 'chat-awaiting' });
+        attemptStartedAt = performance.now();
+        return runChatTurn({
+          provider,
+          systemInstruction: buildInstruction,
+          history: historyRef.current,
+          message: outgoing,
+          tools: strategistTools,
+          grounding: !scenario && groundingRef.current,
+          signal,
+          onFirstChunk: () => audit('first-token', { ms: performance.now() - attemptStartedAt }),
+          onText: text => {
+            started = true;
+            reply = text;
+            speech?.update(text);
+            if (!quiet) setStreamingResponse(restore(text));
+          },
+          onToolCall: call => {
+            started = true;
+            audit('tool-call', { ms: performance.now() - attemptStartedAt, detail: { name: call.name } });
+            return runToolCall(call);
+          },
+        });
+      }, {
+        ...CHAT_BACKOFF,
+        signal,
+        // Once text has streamed or tools have run, a silent resend could repeat them; leave that to the caller.
+        shouldRetry: e => !started && isRetryableError(e),
+        onRetry: (attempt, delayMs, e) => {
+          console.warn(`Strategist unreachable; retrying in ${delayMs} ms.`, e);
+          dispatch({ type: 'retrying', attempt, of: CHAT_BACKOFF.retries, channel: 'chat' });
+        },
+      });
+      audit('message-received', {
+        ms: performance.now() - attemptStartedAt,
+        detail: { channel: 'chat', chars: fullText.length, sources: sources.length },
+        content: restore(fullText),
+      });
+      if (usage) audit('usage', { detail: { channel: 'chat', ...usage } });
+      // Only commit the turn once the reply has fully arrived, so a dropped stream can be resent cleanly.
+      historyRef.current = history;
+      updateOutbox(outboxRef.current.filter(q => q.id !== id));
       setStreamingResponse('');
-      playTTS(fullText);
+      // The playback engine takes over status from here if the reply is spoken.
+      dispatch({ type: 'chat-done' });
+      if (fullText.trim() && !quiet) {
+        const now = Date.now();
+        // Speech carries on into the transcript entry that replaces the streaming bubble.
+        entryTimestamp = now;
+        setSpokenProgress(prev => prev && { ...prev, timestamp: now });
+        setTranscriptions(prev => [...prev, { text: restore(fullText), type: 'model', timestamp: now }, ...citationLinks(sources, now)]);
+        speech?.finish(fullText);
+      } else {
+        speech?.cancel();
+      }
+      return true;
     } catch (e) { 
+      if (isAbortError(e)) return false;
       console.error("Strategic communication error:", e);
-      setTranscriptions(prev => [...prev, { text: "Communication line interrupted. Re-syncing strategic feed...", type: 'model', timestamp: Date.now() }]);
-      setStatus('listening'); 
-      // Force engine re-init
-      initStrategicEngine();
+      // A reply that broke off is resent whole, so don't leave half of it playing.
+      if (speechQueueRef.current === speech) stopAllAudio();
+      audit('message-failed', { ms: performance.now() - attemptStartedAt, detail: { channel: 'chat', error: e instanceof Error ? e.message : String(e) } });
+      setStreamingResponse('');
+      dispatch({ type: 'chat-failed', error: e instanceof Error ? e.message : String(e) });
+      return false;
+    } finally {
+      revisionInstructionRef.current = undefined;
+      setSending(false);
+    }
+  };
+
+  converseRef.current = converse;
+
+  const updateOutbox = (next: QueuedTurn[]) => {
+    outboxRef.current = next;
+    setOutbox(next);
+  };
+
+  /**
+   * Delivers queued turns one at a time, oldest first, so the strategist reads them in the order they
+   * were written. Going offline or a failed turn stops the flush; the rest wait behind it.
+   */
+  const flushOutbox = async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    try {
+      while (outboxRef.current.length) {
+        if (!navigator.onLine) {
+          dispatch({ type: 'offline' });
+          return;
+        }
+        // Through the ref: the flush outlives the render it started in.
+        if (!(await converseRef.current(outboxRef.current[0]))) return;
+      }
+    } finally {
+      flushingRef.current = false;
     }
   };
+  flushOutboxRef.current = flushOutbox;
+
+  /** Queues a turn behind any that are still waiting and sends it when it reaches the front. */
+  const send = (turn: Content, { quiet = false, revision, entryTimestamp }: { quiet?: boolean; revision?: string; entryTimestamp?: number } = {}) => {
+    updateOutbox([...outboxRef.current, { id: crypto.randomUUID(), turn, quiet, revision, entryTimestamp }]);
+    return flushOutbox();
+  };
+
+  // Turns queued while offline go out as soon as the network returns, and when a consultation saved with some is reopened.
+  useEffect(() => {
+    flushOutboxRef.current();
+    const onOnline = () => {
+      dispatch({ type: 'online' });
+      flushOutboxRef.current();
+    };
+    const onOffline = () => dispatch({ type: 'offline' });
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, []);
 
   const statusMap = {
-    connecting: { label: 'Securing Line', color: 'text-amber-500', icon: <div className="w-3 h-3 rounded-full bg-amber-500 animate-pulse" /> },
-    listening: { label: 'Strategist Active', color: 'text-emerald-500', icon: <div className="w-3 h-3 rounded-full bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]" /> },
-    processing: { label: 'Processing Input', color: 'text-blue-500', icon: <div className="w-8 h-2 bg-blue-500/20 rounded scanner-bar overflow-hidden" /> },
-    awaiting: { label: 'Awaiting Response', color: 'text-indigo-500', icon: (
+    connecting: { label: t('status.connecting'), color: 'text-amber-500', icon: <div className="w-3 h-3 rounded-full bg-amber-500 animate-pulse" /> },
+    listening: { label: t('status.listening'), color: 'text-emerald-500', icon: <div className="w-3 h-3 rounded-full bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]" /> },
+    processing: { label: t('status.processing'), color: 'text-blue-500', icon: <div className="w-8 h-2 bg-blue-500/20 rounded scanner-bar overflow-hidden" /> },
+    awaiting: { label: t('status.awaiting'), color: 'text-indigo-500', icon: (
       <div className="flex gap-1">
         <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 wave-dot" />
         <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 wave-dot" />
         <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 wave-dot" />
       </div>
     )},
-    buffering: { label: 'Buffering Audio', color: 'text-violet-500', icon: <div className="w-4 h-4 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" /> },
-    speaking: { label: 'Strategist Speaking', color: 'text-cyan-400', icon: (
+    buffering: { label: t('status.buffering'), color: 'text-violet-500', icon: <div className="w-4 h-4 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" /> },
+    speaking: { label: t('status.speaking'), color: 'text-cyan-400', icon: (
       <div className="flex items-end gap-1 h-3">
         <div className="w-1 bg-cyan-400 bar" />
         <div className="w-1 bg-cyan-400 bar" />
         <div className="w-1 bg-cyan-400 bar" />
         <div className="w-1 bg-cyan-400 bar" />
       </div>
-    )}
+    )},
+    reconnecting: {
+      label: connection.retry ? t('status.reconnectingAttempt', connection.retry) : t('status.reconnecting'),
+      color: 'text-amber-400',
+      icon: <div className="w-4 h-4 border-2 border-amber-400 border-t-transparent rounded-full animate-spin" />,
+    },
+    degraded: {
+      label: t(connection.degraded?.source === 'speech' ? 'status.degradedSpeech' : 'status.degradedText'),
+      color: 'text-orange-400',
+      icon: <div className="w-3 h-3 rounded-full border-2 border-orange-400" />,
+    },
+    offline: { label: t('status.offline'), color: 'text-slate-400', icon: <div className="w-3 h-3 rounded-full bg-slate-500" /> },
+    error: { label: t('status.error'), color: 'text-red-400', icon: <div className="w-3 h-3 rounded-full bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]" /> },
   };
 
   const currentStatus = statusMap[status];
 
   return (
-    <div className="w-full flex flex-col h-[75vh] glass rounded-[2.5rem] overflow-hidden shadow-2xl border border-white/10 animate-in fade-in zoom-in-95 duration-500">
+    <div
+      className="relative w-full flex flex-col h-[75vh] glass rounded-[2.5rem] overflow-hidden shadow-2xl border border-white/10 animate-in fade-in zoom-in-95 duration-500"
+      onDragOver={e => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDraggingFiles(true);
+      }}
+      onDragLeave={e => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDraggingFiles(false);
+      }}
+      onDrop={e => {
+        if (!e.dataTransfer.files.length) return;
+        e.preventDefault();
+        setDraggingFiles(false);
+        handleAddFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      {draggingFiles && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-950/80 border-2 border-dashed border-blue-500/60 rounded-[2.5rem] pointer-events-none">
+          <span className="text-sm font-bold uppercase tracking-widest text-blue-300">{t('attachments.drop')}</span>
+        </div>
+      )}
       {/* Strategic Header */}
       <div className="p-5 border-b border-white/5 flex items-center justify-between bg-slate-800/20">
         <div className="flex items-center gap-4">
@@ -260,19 +1074,90 @@ Privacy: If requested for a secure line, advise: "I understand the sensitivity.
             {currentStatus.icon}
           </div>
           <div className="flex flex-col">
-            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Tactical Stream</span>
-            <span className={`text-sm font-bold ${currentStatus.color} transition-colors duration-300`}>
+            <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{t('agent.streamLabel')}</span>
+            <span
+              className={`text-sm font-bold ${currentStatus.color} transition-colors duration-300`}
+              title={
+                connection.retry ? t(connection.retry.channel === 'chat' ? 'agent.chatRetrying' : 'agent.lineRetrying')
+                  : connection.error ?? (connection.degraded ? t(connection.degraded.reason) : undefined)
+              }
+            >
               {currentStatus.label}
             </span>
           </div>
+          {voiceLineOpen && (
+            micEnabled ? (
+              <div className="flex items-center gap-3 pl-4 border-l border-white/5">
+                <InputLevelMeter levelRef={inputLevelRef} active={micEnabled} />
+                {callerTalking && <span className="text-[10px] font-bold uppercase tracking-widest text-blue-400">{t('agent.callerSpeaking')}</span>}
+                <div className="flex rounded-lg bg-slate-800 p-0.5" role="radiogroup" aria-label={t('agent.inputMode')}>
+                  {([['vad', t('agent.modeAuto')], ['push-to-talk', t('agent.modePushToTalk')]] as [InputMode, string][]).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      role="radio"
+                      aria-checked={inputMode === mode}
+                      onClick={() => setInputMode(mode)}
+                      className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-widest transition-colors ${inputMode === mode ? 'bg-blue-500/20 text-blue-400' : 'text-slate-500 hover:text-slate-300'}`}
+                      title={t(mode === 'vad' ? 'agent.modeAutoHint' : 'agent.modePushToTalkHint')}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <span className="pl-4 border-l border-white/5 text-[10px] font-bold uppercase tracking-widest text-red-400">{t('agent.muted')}</span>
+            )
+          )}
         </div>
         <div className="flex gap-2">
+          <button
+            onClick={() => setCasePanelOpen(!casePanelOpen)}
+            className={`p-2.5 rounded-xl transition-all duration-300 ${casePanelOpen ? 'bg-blue-500/20 text-blue-400 ring-1 ring-blue-500/30' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            title={t(casePanelOpen ? 'agent.hidePanel' : 'agent.showPanel')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M15 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V7Z"/><path d="M14 2v4a2 2 0 0 0 2 2h4"/><path d="M16 13H8"/><path d="M16 17H8"/></svg>
+          </button>
+          {drill ? (
+            <button
+              onClick={handleDebriefClick}
+              disabled={debriefing || !transcriptions.some(t => t.type === 'user')}
+              className="px-3 py-2.5 rounded-xl bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 border border-amber-500/10 transition-all disabled:opacity-50 text-[10px] font-bold uppercase tracking-widest"
+              title={t('drill.endHint')}
+            >
+              {t(debriefing ? 'drill.debriefing' : 'drill.end')}
+            </button>
+          ) : (
+            <button
+              onClick={handleEscalateClick}
+              disabled={escalating}
+              className="px-3 py-2.5 rounded-xl bg-amber-500/10 text-amber-400 hover:bg-amber-500/20 border border-amber-500/10 transition-all disabled:opacity-50 text-[10px] font-bold uppercase tracking-widest"
+              title={t('agent.escalateHint')}
+            >
+              {t(escalating ? 'agent.escalating' : 'agent.escalate')}
+            </button>
+          )}
+          <VoiceSettingsPanel
+            config={voiceConfig}
+            onChange={setVoiceConfig}
+            onPreview={name => { stopAllAudio(); resumeAudio().then(() => playTTS(t('voice.previewLine', { name }), name)); }}
+          />
+          <ExportMenu
+            provider={provider}
+            consultationId={consultationIdRef.current}
+            transcriptions={transcriptions}
+            privacy={redaction.enabled ? privacy : undefined}
+          />
           <button 
             onClick={() => setMicEnabled(!micEnabled)} 
             className={`p-2.5 rounded-xl transition-all duration-300 ${micEnabled ? 'bg-blue-500/20 text-blue-400 ring-1 ring-blue-500/30 shadow-[0_0_15px_rgba(59,130,246,0.1)]' : 'bg-slate-700 text-slate-500'}`}
-            title={micEnabled ? "Disable Microphone" : "Enable Microphone"}
+            title={t(micEnabled ? 'agent.muteMic' : 'agent.enableMic')}
           >
-            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/></svg>
+            {micEnabled || !voiceLineOpen ? (
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/></svg>
+            ) : (
+              <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="text-red-400"><line x1="2" x2="22" y1="2" y2="22"/><path d="M18.89 13.23A7.12 7.12 0 0 0 19 12v-2"/><path d="M5 10v2a7 7 0 0 0 12 5"/><path d="M15 9.34V5a3 3 0 0 0-5.68-1.33"/><path d="M9 9v3a3 3 0 0 0 5.12 2.12"/></svg>
+            )}
           </button>
           <button onClick={onExit} className="p-2.5 rounded-xl bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-all border border-red-500/10">
             <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M18.36 6.64a9 9 0 1 1-12.73 0"/><line x1="12" y1="2" x2="12" y2="12"/></svg>
@@ -280,45 +1165,196 @@ Privacy: If requested for a secure line, advise: "I understand the sensitivity.
         </div>
       </div>
 
-      {/* Strategic Transcript */}
-      <div className="flex-1 overflow-y-auto px-6 py-6 space-y-6 custom-scrollbar bg-slate-900/40">
-        {transcriptions.map((t, i) => (
-          <div key={i} className={`flex ${t.type === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2 duration-300`}>
-            <div className={`max-w-[85%] px-5 py-3.5 rounded-2xl text-[15px] leading-relaxed shadow-sm ${t.type === 'user' ? 'bg-blue-600 text-white shadow-blue-500/20' : 'bg-slate-800 border border-white/5 text-slate-200'}`}>
-              {t.text}
+      {/* Transcript and Case File */}
+      <div className="flex-1 flex min-h-0">
+        {/* Strategic Transcript */}
+        <div className="flex-1 overflow-y-auto px-6 py-6 space-y-6 custom-scrollbar bg-slate-900/40">
+          {transcriptions.map((t, i) => t.metadata?.citation ? null : t.type === 'link' ? (
+            <div key={i} className="flex justify-start animate-in slide-in-from-bottom-2 duration-300">
+              <a
+                href={t.metadata?.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="max-w-[85%] flex items-center gap-3 px-5 py-3 rounded-2xl bg-slate-800/60 border border-blue-500/20 hover:border-blue-500/40 hover:bg-slate-800 transition-all"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="text-blue-400 shrink-0"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"/><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"/></svg>
+                <div className="flex flex-col min-w-0">
+                  <span className="text-sm font-bold text-blue-300 truncate">{t.metadata?.title ?? t.text}</span>
+                  {t.metadata?.title && <span className="text-xs text-slate-400 truncate">{t.text}</span>}
+                </div>
+              </a>
             </div>
-          </div>
-        ))}
-        {streamingResponse && (
-          <div className="flex justify-start">
-            <div className="max-w-[85%] px-5 py-3.5 rounded-2xl text-[15px] leading-relaxed bg-slate-800/60 border border-white/5 italic text-blue-200 animate-pulse">
-              {streamingResponse}
+          ) : (
+            <div key={i} className={`flex ${t.type === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2 duration-300`}>
+              <div className={`max-w-[85%] px-5 py-3.5 rounded-2xl text-[15px] leading-relaxed shadow-sm ${t.type === 'user' ? 'bg-blue-600 text-white shadow-blue-500/20' : 'bg-slate-800 border border-white/5 text-slate-200'} ${queuedEntries.has(t.timestamp) ? 'opacity-60' : ''}`}>
+                {t.attachments?.length ? (
+                  <div className={t.text ? 'mb-3' : ''}>
+                    <AttachmentList attachments={t.attachments} />
+                  </div>
+                ) : null}
+                {t.type === 'model' && spokenProgress?.timestamp === t.timestamp
+                  ? <SpokenText text={t.text} spokenChars={spokenProgress.spokenChars} />
+                  : t.text}
+                {t.type === 'model' && <SourcesDrawer sources={citationsFor(transcriptions, i)} />}
+                {t.type === 'user' && queuedEntries.has(t.timestamp) && <QueuedBadge />}
+              </div>
             </div>
-          </div>
+          ))}
+          {streamingResponse && (
+            <div className="flex justify-start">
+              <div className="max-w-[85%] px-5 py-3.5 rounded-2xl text-[15px] leading-relaxed bg-slate-800/60 border border-white/5 italic text-blue-200 animate-pulse">
+                {spokenProgress && spokenProgress.timestamp === null
+                  ? <SpokenText text={streamingResponse} spokenChars={spokenProgress.spokenChars} />
+                  : streamingResponse}
+              </div>
+            </div>
+          )}
+          <div ref={chatEndRef} />
+        </div>
+
+        {/* Live Case File & Documents */}
+        {casePanelOpen && (
+          <aside className={`hidden md:flex flex-col shrink-0 border-l border-white/5 bg-slate-900/60 transition-all ${sidePanel === 'documents' ? 'w-96' : 'w-72'}`}>
+            <div className="flex border-b border-white/5">
+              {([
+                ...(drill ? [['drill', t('drill.tab')]] : [
+                  ['case', t('agent.tabCase')],
+                  ['documents', `${t('agent.tabDocuments')}${documents.length ? ` (${documents.length})` : ''}`],
+                ]),
+                ['privacy', `${t('agent.tabPrivacy')}${redaction.entries.length ? ` (${redaction.entries.length})` : ''}`],
+                ['log', t('agent.tabLog')],
+              ] as [SidePanel, string][]).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setSidePanel(id)}
+                  className={`flex-1 py-3 text-[10px] font-bold uppercase tracking-widest transition-colors ${sidePanel === id ? 'text-blue-400 border-b-2 border-blue-500' : 'text-slate-500 hover:text-slate-300'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 min-h-0">
+              {sidePanel === 'log' ? (
+                <AuditPanel events={loggedEvents} contentLogged={!redaction.enabled} onExport={handleExportLog} />
+              ) : sidePanel === 'drill' && drill ? (
+                <DrillPanel drill={drill} debriefing={debriefing} error={debriefError} />
+              ) : sidePanel === 'case' ? (
+                <CrisisCasePanel
+                  crisisCase={crisisCase}
+                  recentlyChanged={recentlyChanged}
+                  onCorrect={handleCaseCorrection}
+                  onUnlock={handleCaseUnlock}
+                />
+              ) : sidePanel === 'privacy' ? (
+                <PrivacyPanel
+                  grounding={grounding}
+                  redaction={redaction}
+                  watchlist={watchlist}
+                  onGroundingChange={setGrounding}
+                  onRedactionToggle={enabled => setRedaction(prev => ({ ...prev, enabled }))}
+                  onWatchlistChange={setWatchlist}
+                />
+              ) : (
+                <DocumentPane
+                  documents={documents}
+                  focusId={focusedDocumentId}
+                  busy={sending}
+                  onSaveEdit={handleSaveDocumentEdit}
+                  onRefine={handleRefineDocument}
+                />
+              )}
+            </div>
+          </aside>
         )}
-        <div ref={chatEndRef} />
       </div>
 
+      {/* Delivery Notice */}
+      {outbox.length > 0 && (status === 'error' || status === 'offline') && (
+        <div className="px-5 py-3 flex items-center justify-between gap-4 bg-red-500/10 border-t border-red-500/20 text-sm">
+          <span className="text-red-300">
+            {status === 'offline'
+              ? outbox.length > 1
+                ? t('agent.offlineQueued', { count: outbox.length })
+                : t(outbox[0].quiet ? 'agent.offlineRevision' : 'agent.offlineMessage')
+              : t(outbox[0].quiet ? 'agent.undeliveredRevision' : 'agent.undeliveredMessage')}
+          </span>
+          {status === 'error' && (
+            <button
+              onClick={flushOutbox}
+              className="px-3 py-1.5 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 text-[10px] font-bold uppercase tracking-widest transition-all"
+            >
+              {t('agent.retry')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Pending Attachments */}
+      {(pendingAttachments.length > 0 || attachmentProblems.length > 0) && (
+        <div className="px-5 pt-3 pb-1 bg-slate-900 border-t border-white/5 space-y-2">
+          {pendingAttachments.length > 0 && (
+            <AttachmentList
+              attachments={pendingAttachments}
+              onRemove={id => setPendingAttachments(prev => prev.filter(a => a.id !== id))}
+            />
+          )}
+          {attachmentProblems.map((p, i) => (
+            <p key={i} className="text-xs text-red-300">{t(p.key, p.vars)}</p>
+          ))}
+        </div>
+      )}
+
       {/* Input Control Module */}
       <div className="p-4 bg-slate-900 border-t border-white/5 flex gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_FILE_TYPES}
+          className="hidden"
+          onChange={e => {
+            if (e.target.files) handleAddFiles(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 rounded-xl bg-slate-800 text-slate-300 hover:bg-slate-700 border border-white/10 transition-all"
+          title={t('attachments.attachHint')}
+          aria-label={t('attachments.attach')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="m21.44 11.05-9.19 9.19a6 6 0 0 1-8.49-8.49l8.57-8.57A4 4 0 1 1 18 8.84l-8.59 8.57a2 2 0 0 1-2.83-2.83l8.49-8.48"/></svg>
+        </button>
+        {voiceLineOpen && micEnabled && inputMode === 'push-to-talk' && (
+          <button
+            onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); beginCallerTurn(); }}
+            onPointerUp={endCallerTurn}
+            onPointerCancel={endCallerTurn}
+            onContextMenu={e => e.preventDefault()}
+            className={`px-5 rounded-xl text-[10px] font-bold uppercase tracking-widest select-none touch-none transition-all ${callerTalking ? 'bg-blue-600 text-white shadow-lg shadow-blue-600/30' : 'bg-slate-800 text-slate-300 hover:bg-slate-700 border border-white/10'}`}
+            title={t('agent.holdToTalkHint')}
+          >
+            {t(callerTalking ? 'agent.releaseToSend' : 'agent.holdToTalk')}
+          </button>
+        )}
         <div className="relative flex-1">
           <input 
             value={textInput} 
             onChange={e => setTextInput(e.target.value)}
             onKeyDown={e => e.key === 'Enter' && handleSendText()}
-            placeholder="Describe the crisis situation..." 
+            placeholder={t('agent.inputPlaceholder')}
             className="w-full bg-slate-950 border border-white/10 rounded-xl px-5 py-4 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/40 text-white transition-all placeholder:text-slate-600"
           />
         </div>
         <button 
           onClick={handleSendText} 
-          disabled={!textInput.trim() || !!streamingResponse || status === 'processing' || status === 'awaiting'}
+          disabled={(!textInput.trim() && !pendingAttachments.length) || !!streamingResponse || sending}
           className="px-6 bg-blue-600 rounded-xl hover:bg-blue-500 disabled:opacity-30 disabled:hover:bg-blue-600 transition-all shadow-lg shadow-blue-600/20 text-white flex items-center justify-center font-bold"
         >
-          {status === 'processing' || status === 'awaiting' ? (
+          {sending ? (
               <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
           ) : (
-              <span>SEND</span>
+              <span>{t('agent.send')}</span>
           )}
         </button>
       </div>
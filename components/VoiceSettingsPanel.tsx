@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { VoiceConfig, VoiceName } from '../types';
+import { SPEAKING_RATE_RANGE, VOICE_NAMES } from '../services/voiceSettings';
+import { useI18n } from './I18nContext';
+
+interface VoiceSettingsPanelProps {
+  config: VoiceConfig;
+  onChange: (config: VoiceConfig) => void;
+  onPreview: (voiceName: VoiceName) => void;
+}
+
+const labelClass = 'text-[10px] font-bold uppercase tracking-widest text-slate-500';
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string }> = ({ checked, onChange, label }) => (
+  <label className="flex items-center justify-between cursor-pointer">
+    <span className={labelClass}>{label}</span>
+    <button
+      role="switch"
+      aria-checked={checked}
+      onClick={() => onChange(!checked)}
+      className={`w-9 h-5 rounded-full transition-colors relative ${checked ? 'bg-blue-600' : 'bg-slate-700'}`}
+    >
+      <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-all ${checked ? 'left-[18px]' : 'left-0.5'}`} />
+    </button>
+  </label>
+);
+
+export const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ config, onChange, onPreview }) => {
+  const [open, setOpen] = useState(false);
+  const { t } = useI18n();
+  const update = (patch: Partial<VoiceConfig>) => onChange({ ...config, ...patch });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`p-2.5 rounded-xl transition-all duration-300 ${open ? 'bg-blue-500/20 text-blue-400 ring-1 ring-blue-500/30' : config.muted ? 'bg-slate-700 text-red-400' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+        title={t(config.muted ? 'voice.settingsMuted' : 'voice.settings')}
+      >
+        {config.muted ? (
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/><line x1="22" x2="16" y1="9" y2="15"/><line x1="16" x2="22" y1="9" y2="15"/></svg>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/><path d="M15.54 8.46a5 5 0 0 1 0 7.07"/><path d="M19.07 4.93a10 10 0 0 1 0 14.14"/></svg>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 glass rounded-xl shadow-2xl p-5 space-y-5 z-20">
+          <div className="space-y-2">
+            <span className={labelClass}>{t('voice.strategistVoice')}</span>
+            <div className="grid grid-cols-1 gap-1.5">
+              {VOICE_NAMES.map(name => (
+                <div key={name} className={`flex items-center justify-between px-3 py-2 rounded-lg border transition-colors ${config.voiceName === name ? 'border-blue-500/40 bg-blue-500/10' : 'border-white/5 hover:bg-white/5'}`}>
+                  <button onClick={() => update({ voiceName: name })} className="flex-1 text-left text-sm text-slate-200">
+                    {name}
+                  </button>
+                  <button
+                    onClick={() => onPreview(name)}
+                    className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-blue-400"
+                    title={t('voice.previewName', { name })}
+                  >
+                    {t('voice.preview')}
+                  </button>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500">{t('voice.reconnectNote')}</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span className={labelClass}>{t('voice.volume')}</span>
+              <span className="text-[10px] text-slate-400">{Math.round(config.volume * 100)}%</span>
+            </div>
+            <input
+              type="range" min={0} max={1} step={0.05}
+              value={config.volume}
+              onChange={e => update({ volume: Number(e.target.value) })}
+              disabled={config.muted}
+              className="w-full accent-blue-500 disabled:opacity-30"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span className={labelClass}>{t('voice.speakingRate')}</span>
+              <span className="text-[10px] text-slate-400">{config.speakingRate.toFixed(2)}×</span>
+            </div>
+            <input
+              type="range" min={SPEAKING_RATE_RANGE.min} max={SPEAKING_RATE_RANGE.max} step={SPEAKING_RATE_RANGE.step}
+              value={config.speakingRate}
+              onChange={e => update({ speakingRate: Number(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+          </div>
+
+          <Toggle label={t('voice.mute')} checked={config.muted} onChange={muted => update({ muted })} />
+          <Toggle label={t('voice.autoSpeak')} checked={config.autoSpeak} onChange={autoSpeak => update({ autoSpeak })} />
+        </div>
+      )}
+    </div>
+  );
+};
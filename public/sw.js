@@ -0,0 +1,80 @@
+// Keeps the app shell available offline. Nothing under /api is cached: model calls need live
+// answers, and queued messages wait in the page until the network returns.
+
+// Bumped when caching rules change, so activation clears what older rules stored.
+const SHELL_CACHE = 'shell-v3';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+// Written by the build (see vite.config.ts): the hashed scripts and styles the shell loads.
+const ASSET_MANIFEST = '/asset-manifest.json';
+// Styles and fonts load from CDNs; without them the cached shell would render unstyled.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+async function builtAssets() {
+  const response = await fetch(ASSET_MANIFEST, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`${ASSET_MANIFEST} returned ${response.status}`);
+  return response.json();
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll([...SHELL, ...(await builtAssets())]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function store(request, response) {
+  // Opaque CDN responses report status 0 but are still usable.
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// The network first so a deploy is picked up at once, the cached copy when offline. Pages
+// are all cached as '/': every route is the same single-page app, as public/_redirects serves it.
+async function networkFirst(request, key = request) {
+  try {
+    return await store(key, await fetch(request));
+  } catch {
+    return (await caches.match(key)) ?? Response.error();
+  }
+}
+
+// Built assets under /assets/ have content hashes in their names, so a cached copy never goes stale.
+async function cacheFirst(request) {
+  return (await caches.match(request)) ?? store(request, await fetch(request));
+}
+
+async function staleWhileRevalidate(request, event) {
+  const cached = await caches.match(request);
+  const refresh = fetch(request).then(response => store(request, response));
+  if (!cached) return refresh;
+  event.waitUntil(refresh.catch(() => {}));
+  return cached;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/api/')) return;
+    if (request.mode === 'navigate') event.respondWith(networkFirst(request, '/'));
+    else if (url.pathname.startsWith('/assets/')) event.respondWith(cacheFirst(request));
+    // The manifest, icons and anything else unhashed: refreshed whenever the network is there.
+    else event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
@@ -0,0 +1,29 @@
+import type { Content, GenerateContentConfig } from '@google/genai';
+
+export interface ChatStreamRequest {
+  model: string;
+  contents: Content[];
+  config?: GenerateContentConfig;
+}
+
+export interface LiveToken {
+  token: string;
+  expiresAt: string;
+}
+
+// What the HTTP layer needs from a model vendor. Streamed chunks are plain
+// JSON-serialisable GenerateContentResponse shapes so the browser can rebuild them.
+export interface ModelBackend {
+  readonly name: string;
+  streamChat(request: ChatStreamRequest): AsyncIterable<unknown>;
+  /** `languageCode` is a BCP-47 tag; without it the model infers the language from the text. */
+  synthesizeSpeech(model: string, text: string, voiceName: string, languageCode?: string): Promise<string | undefined>;
+  mintLiveToken(model: string): Promise<LiveToken>;
+}
+
+export class BackendUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackendUnavailableError';
+  }
+}
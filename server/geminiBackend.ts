@@ -0,0 +1,53 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { ChatStreamRequest, LiveToken, ModelBackend } from './backend';
+
+const LIVE_TOKEN_TTL_MS = 30 * 60 * 1000;
+const LIVE_TOKEN_NEW_SESSION_MS = 60 * 1000;
+
+export class GeminiBackend implements ModelBackend {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async *streamChat({ model, contents, config }: ChatStreamRequest): AsyncIterable<unknown> {
+    const stream = await this.ai.models.generateContentStream({ model, contents, config });
+    for await (const chunk of stream) {
+      yield {
+        candidates: chunk.candidates,
+        usageMetadata: chunk.usageMetadata,
+        modelVersion: chunk.modelVersion,
+      };
+    }
+  }
+
+  async synthesizeSpeech(model: string, text: string, voiceName: string, languageCode?: string): Promise<string | undefined> {
+    const response = await this.ai.models.generateContent({
+      model,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } }, ...(languageCode ? { languageCode } : {}) },
+      },
+    });
+    return response.candidates?.[0]?.content?.parts?.find(p => p.inlineData)?.inlineData?.data;
+  }
+
+  async mintLiveToken(model: string): Promise<LiveToken> {
+    const now = Date.now();
+    const expiresAt = new Date(now + LIVE_TOKEN_TTL_MS).toISOString();
+    const token = await this.ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expiresAt,
+        newSessionExpireTime: new Date(now + LIVE_TOKEN_NEW_SESSION_MS).toISOString(),
+        liveConnectConstraints: { model },
+        httpOptions: { apiVersion: 'v1alpha' },
+      },
+    });
+    if (!token.name) throw new Error('Token service returned no token.');
+    return { token: token.name, expiresAt };
+  }
+}
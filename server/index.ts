@@ -0,0 +1,143 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { Content, GenerateContentConfig } from '@google/genai';
+import { BackendUnavailableError, ModelBackend } from './backend';
+import { GeminiBackend } from './geminiBackend';
+import { StubBackend } from './stubBackend';
+import { loadTenants } from './tenants';
+
+const PORT = Number(process.env.PORT || 8787);
+// Chat requests resend the whole history, including any attached evidence files.
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Only models named in a tenant configuration may be reached through the proxy.
+const tenants = loadTenants();
+const ALLOWED_CHAT_MODELS = new Set(tenants.map(t => t.models.chat));
+const ALLOWED_LIVE_MODELS = new Set(tenants.map(t => t.models.live));
+const ALLOWED_TTS_MODELS = new Set(tenants.map(t => t.models.tts));
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// The stub answers with canned advice, so it is only served when asked for by name; a deploy
+// that lost its key must fail loudly rather than counsel real clients with it.
+function createBackend(): ModelBackend {
+  if (process.env.STUB_MODEL === '1') return new StubBackend();
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) {
+    console.error('No GEMINI_API_KEY set. Export it, or set STUB_MODEL=1 (npm run server:stub) to develop against the stub model.');
+    process.exit(1);
+  }
+  return new GeminiBackend(apiKey);
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+  } catch (e) {
+    throw new HttpError(400, 'Malformed JSON body.');
+  }
+}
+
+async function readObject(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const body = await readJson(req);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new HttpError(400, 'Body must be a JSON object.');
+  return body as Record<string, unknown>;
+}
+
+function allowedModel(model: unknown, allowed: Set<string>): string {
+  if (typeof model !== 'string' || !allowed.has(model)) throw new HttpError(400, `Model not permitted: ${String(model)}`);
+  return model;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+const backend = createBackend();
+
+async function handleChatStream(req: IncomingMessage, res: ServerResponse) {
+  const body = await readObject(req);
+  const model = allowedModel(body.model, ALLOWED_CHAT_MODELS);
+  const { contents, config } = body;
+  if (!Array.isArray(contents) || contents.length === 0) throw new HttpError(400, 'contents must be a non-empty array.');
+  if (config !== undefined && (!config || typeof config !== 'object' || Array.isArray(config))) {
+    throw new HttpError(400, 'config must be an object.');
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+  try {
+    // The model API validates the content shapes themselves.
+    const request = { model, contents: contents as Content[], config: config as GenerateContentConfig | undefined };
+    for await (const chunk of backend.streamChat(request)) {
+      res.write(JSON.stringify(chunk) + '\n');
+    }
+  } catch (e) {
+    console.error('Chat stream failed:', e);
+    res.write(JSON.stringify({ error: 'Upstream model error.' }) + '\n');
+  }
+  res.end();
+}
+
+async function handleTts(req: IncomingMessage, res: ServerResponse) {
+  const { model: requested, text, voiceName, languageCode } = await readObject(req);
+  const model = allowedModel(requested, ALLOWED_TTS_MODELS);
+  if (typeof text !== 'string' || !text.trim()) throw new HttpError(400, 'text is required.');
+  const audio = await backend.synthesizeSpeech(
+    model,
+    text,
+    typeof voiceName === 'string' ? voiceName : 'Kore',
+    typeof languageCode === 'string' ? languageCode : undefined,
+  );
+  sendJson(res, 200, { audio: audio ?? null });
+}
+
+async function handleLiveToken(req: IncomingMessage, res: ServerResponse) {
+  const { model } = await readObject(req);
+  sendJson(res, 200, await backend.mintLiveToken(allowedModel(model, ALLOWED_LIVE_MODELS)));
+}
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+  'POST /api/chat/stream': handleChatStream,
+  'POST /api/tts': handleTts,
+  'POST /api/live/token': handleLiveToken,
+};
+
+const server = createServer(async (req, res) => {
+  const path = (req.url || '/').split('?')[0];
+  if (req.method === 'GET' && path === '/api/health') {
+    return sendJson(res, 200, { ok: true, backend: backend.name });
+  }
+  const handler = routes[`${req.method} ${path}`];
+  if (!handler) return sendJson(res, 404, { error: 'Not found.' });
+
+  try {
+    await handler(req, res);
+  } catch (e) {
+    if (res.headersSent) {
+      res.end();
+    } else if (e instanceof HttpError) {
+      sendJson(res, e.status, { error: e.message });
+    } else if (e instanceof BackendUnavailableError) {
+      sendJson(res, 503, { error: e.message });
+    } else {
+      console.error(`${req.method} ${path} failed:`, e);
+      sendJson(res, 502, { error: 'Upstream model error.' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Strategist proxy listening on http://localhost:${PORT} (${backend.name} backend, tenants: ${tenants.map(t => `${t.id}@${t.version}`).join(', ')})`);
+});
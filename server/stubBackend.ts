@@ -0,0 +1,46 @@
+import { BackendUnavailableError, ChatStreamRequest, LiveToken, ModelBackend } from './backend';
+
+const STUB_SAMPLE_RATE = 24000;
+const STUB_TONE_SECONDS = 0.4;
+
+const CANNED_REPLIES = [
+  "Understood. First, confirm the facts you can verify right now and who inside the organization already knows. Do not comment publicly until we have a holding line agreed.",
+  "Next, identify your most exposed stakeholders: customers, staff, regulators and the press. Each needs a tailored message, delivered in that order of urgency.",
+  "For media inquiries in the next hour, use a short holding statement: acknowledge the situation, express concern, and commit to an update at a specific time.",
+];
+
+function lastUserText(request: ChatStreamRequest): string {
+  const last = [...request.contents].reverse().find(c => c.role !== 'model');
+  return last?.parts?.map(p => p.text ?? '').join(' ').trim() ?? '';
+}
+
+// Deterministic offline stand-in for local development: no key, no network.
+export class StubBackend implements ModelBackend {
+  readonly name = 'stub';
+
+  async *streamChat(request: ChatStreamRequest): AsyncIterable<unknown> {
+    const turn = request.contents.filter(c => c.role === 'model').length;
+    const prompt = lastUserText(request);
+    const reply = `${prompt ? `[stub] Regarding "${prompt.slice(0, 60)}": ` : '[stub] '}${CANNED_REPLIES[turn % CANNED_REPLIES.length]}`;
+    const words = reply.split(' ');
+    for (let i = 0; i < words.length; i += 6) {
+      await new Promise(resolve => setTimeout(resolve, 40));
+      const text = words.slice(i, i + 6).join(' ') + (i + 6 < words.length ? ' ' : '');
+      yield { candidates: [{ content: { role: 'model', parts: [{ text }] } }] };
+    }
+  }
+
+  async synthesizeSpeech(): Promise<string | undefined> {
+    // A short low tone so playback paths are exercised without a real voice.
+    const frames = Math.floor(STUB_SAMPLE_RATE * STUB_TONE_SECONDS);
+    const pcm = Buffer.alloc(frames * 2);
+    for (let i = 0; i < frames; i++) {
+      pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 220 * i) / STUB_SAMPLE_RATE) * 3000), i * 2);
+    }
+    return pcm.toString('base64');
+  }
+
+  async mintLiveToken(): Promise<LiveToken> {
+    throw new BackendUnavailableError('Live voice sessions are not available with the stub model.');
+  }
+}
@@ -0,0 +1,31 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { TenantConfig, TenantConfigError, validateTenantConfig } from '../services/tenantConfig';
+
+const TENANTS_DIR = join(import.meta.dirname, '..', 'tenants');
+
+/**
+ * Reads and validates every tenants/*.json. The browser bundles the same files,
+ * so the proxy refuses to start rather than serve a configuration the app would reject.
+ */
+export function loadTenants(): TenantConfig[] {
+  const files = readdirSync(TENANTS_DIR).filter(f => f.endsWith('.json') && !f.endsWith('.schema.json'));
+  const tenants: TenantConfig[] = [];
+  const errors: TenantConfigError[] = [];
+  for (const file of files) {
+    const source = `tenants/${file}`;
+    try {
+      const tenant = validateTenantConfig(JSON.parse(readFileSync(join(TENANTS_DIR, file), 'utf8')), source);
+      if (`${tenant.id}.json` !== file) throw new TenantConfigError(source, [`id "${tenant.id}" must match the file name`]);
+      tenants.push(tenant);
+    } catch (e) {
+      errors.push(e instanceof TenantConfigError ? e : new TenantConfigError(source, [`not valid JSON: ${(e as Error).message}`]));
+    }
+  }
+  if (!files.length) errors.push(new TenantConfigError('tenants/', ['no tenant configuration files found']));
+  if (errors.length) {
+    errors.forEach(e => console.error(e.message));
+    process.exit(1);
+  }
+  return tenants;
+}
@@ -0,0 +1,112 @@
+import { Part } from '@google/genai';
+import { Attachment, Transcription } from '../types';
+import { decode, encode } from './audioUtils';
+import { MessageKey, TranslateVars } from './i18n';
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+export const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+// Files travel inline with every turn's history, so the whole consultation has to fit in one request.
+export const MAX_CONSULTATION_ATTACHMENT_BYTES = 12 * 1024 * 1024;
+
+const MIME_KINDS: Record<string, AttachmentKind> = {
+  'image/png': 'image',
+  'image/jpeg': 'image',
+  'image/webp': 'image',
+  'image/heic': 'image',
+  'image/heif': 'image',
+  'application/pdf': 'pdf',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'text/csv': 'text',
+  'text/html': 'text',
+  'message/rfc822': 'text',
+};
+
+// Browsers leave `File.type` empty for some of these, notably .md and .eml.
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  htm: 'text/html',
+  html: 'text/html',
+  eml: 'message/rfc822',
+};
+
+/** For the file picker's `accept` attribute. */
+export const ACCEPTED_FILE_TYPES = [...Object.keys(MIME_KINDS), ...Object.keys(EXTENSION_TYPES).map(ext => `.${ext}`)].join(',');
+
+export function resolveMimeType(file: File): string {
+  if (MIME_KINDS[file.type]) return file.type;
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_TYPES[ext] ?? file.type;
+}
+
+export function attachmentKind(mimeType: string): AttachmentKind | undefined {
+  return MIME_KINDS[mimeType];
+}
+
+export interface AttachmentProblem {
+  key: MessageKey;
+  vars: TranslateVars;
+}
+
+const megabytes = (bytes: number) => Math.round(bytes / (1024 * 1024));
+
+/**
+ * Checks one file against the type and size limits, given what is already
+ * queued for this message and what earlier messages have attached.
+ */
+export function checkAttachment(file: File, queued: Attachment[], earlierBytes: number): AttachmentProblem | null {
+  const name = file.name;
+  if (!attachmentKind(resolveMimeType(file))) return { key: 'attachments.errorType', vars: { name } };
+  if (file.size > MAX_ATTACHMENT_BYTES) return { key: 'attachments.errorSize', vars: { name, limit: megabytes(MAX_ATTACHMENT_BYTES) } };
+  if (queued.length >= MAX_ATTACHMENTS_PER_MESSAGE) return { key: 'attachments.errorCount', vars: { limit: MAX_ATTACHMENTS_PER_MESSAGE } };
+  const total = earlierBytes + queued.reduce((sum, a) => sum + a.size, 0) + file.size;
+  if (total > MAX_CONSULTATION_ATTACHMENT_BYTES) {
+    return { key: 'attachments.errorTotal', vars: { name, limit: megabytes(MAX_CONSULTATION_ATTACHMENT_BYTES) } };
+  }
+  return null;
+}
+
+export async function readAttachment(file: File): Promise<Attachment> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return { id: crypto.randomUUID(), name: file.name, mimeType: resolveMimeType(file), size: file.size, data: encode(bytes) };
+}
+
+/** Bytes already attached across the consultation, counted against the consultation limit. */
+export function attachedBytes(transcriptions: Transcription[]): number {
+  return transcriptions.reduce((sum, t) => sum + (t.attachments ?? []).reduce((s, a) => s + a.size, 0), 0);
+}
+
+/** "(attached: statement.pdf, post.png)", for transcripts that carry file names only. */
+export function describeAttachments(transcription: Transcription): string {
+  const names = transcription.attachments?.map(a => a.name) ?? [];
+  return names.length ? `(attached: ${names.join(', ')})` : '';
+}
+
+export function attachmentText(attachment: Attachment): string {
+  return new TextDecoder().decode(decode(attachment.data));
+}
+
+export function dataUrl(attachment: Attachment): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
+
+/**
+ * Images and PDFs go to the model as inline data. Text files are sent as text,
+ * so they read naturally in the prompt and are masked like typed messages.
+ */
+export function attachmentParts(attachments: Attachment[]): Part[] {
+  return attachments.map(a => (attachmentKind(a.mimeType) === 'text'
+    ? { text: `Attached file "${a.name}":\n${attachmentText(a)}` }
+    : { inlineData: { mimeType: a.mimeType, data: a.data } }));
+}
@@ -0,0 +1,113 @@
+import { createBlob } from './audioUtils';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+/** 2048 samples at 16 kHz: 128 ms per chunk sent to the live session. */
+const CAPTURE_FRAME_SIZE = 2048;
+/** Render quanta (128 samples each) between level reports, roughly every 10 ms. */
+const LEVEL_INTERVAL_QUANTA = 4;
+
+// Runs on the audio rendering thread. Downsamples the device-rate microphone
+// signal to 16 kHz and posts fixed-size Float32 frames back to the main thread,
+// interleaved with RMS level reports for metering and voice activity detection.
+const CAPTURE_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.targetRate = opts.targetRate || ${CAPTURE_SAMPLE_RATE};
+    this.frameSize = opts.frameSize || ${CAPTURE_FRAME_SIZE};
+    this.levelInterval = opts.levelInterval || ${LEVEL_INTERVAL_QUANTA};
+    this.ratio = sampleRate / this.targetRate;
+    this.position = 0;
+    this.frame = new Float32Array(this.frameSize);
+    this.frameIndex = 0;
+    this.levelSum = 0;
+    this.levelCount = 0;
+    this.quanta = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) this.levelSum += channel[i] * channel[i];
+    this.levelCount += channel.length;
+    if (++this.quanta >= this.levelInterval) {
+      this.port.postMessage({ level: Math.sqrt(this.levelSum / this.levelCount) });
+      this.levelSum = 0;
+      this.levelCount = 0;
+      this.quanta = 0;
+    }
+
+    while (this.position < channel.length) {
+      const i = Math.floor(this.position);
+      const frac = this.position - i;
+      const a = channel[i];
+      const b = i + 1 < channel.length ? channel[i + 1] : a;
+      this.frame[this.frameIndex++] = a + (b - a) * frac;
+      if (this.frameIndex === this.frameSize) {
+        this.port.postMessage({ frame: this.frame });
+        this.frame = new Float32Array(this.frameSize);
+        this.frameIndex = 0;
+      }
+      this.position += this.ratio;
+    }
+    this.position -= channel.length;
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureCaptureWorklet(ctx: AudioContext): Promise<void> {
+  if (registeredContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    registeredContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export type PcmBlob = { data: string; mimeType: string };
+
+export interface MicCaptureHandlers {
+  /** Each 16 kHz PCM chunk, already encoded with `createBlob` for the live API. */
+  onChunk: (blob: PcmBlob) => void;
+  /** Input RMS level (0 to 1) about every 10 ms. */
+  onLevel?: (level: number) => void;
+}
+
+export interface MicCapture {
+  stop: () => void;
+}
+
+/** Pipes a microphone stream through an AudioWorklet that resamples it to 16 kHz PCM. */
+export async function startMicCapture(ctx: AudioContext, stream: MediaStream, handlers: MicCaptureHandlers): Promise<MicCapture> {
+  await ensureCaptureWorklet(ctx);
+  if (ctx.state === 'suspended') await ctx.resume();
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE },
+  });
+  node.port.onmessage = (event: MessageEvent<{ frame?: Float32Array; level?: number }>) => {
+    if (event.data.frame) handlers.onChunk(createBlob(event.data.frame));
+    else if (event.data.level !== undefined) handlers.onLevel?.(event.data.level);
+  };
+  source.connect(node);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      try { source.disconnect(); } catch (e) {}
+      try { node.disconnect(); } catch (e) {}
+    },
+  };
+}
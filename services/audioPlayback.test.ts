@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioPlaybackEngine, PlaybackEvent } from './audioPlayback';
+import { encode } from './audioUtils';
+
+// Decoding is held at a gate when a test needs it to finish after something else happens.
+const decodeGate = vi.hoisted(() => ({ wait: null as Promise<void> | null }));
+
+vi.mock('./audioUtils', async importOriginal => {
+  const actual = await importOriginal<typeof import('./audioUtils')>();
+  return {
+    ...actual,
+    decodeAudioData: async (...args: Parameters<typeof actual.decodeAudioData>) => {
+      if (decodeGate.wait) await decodeGate.wait;
+      return actual.decodeAudioData(...args);
+    },
+  };
+});
+
+const SAMPLE_RATE = 24000;
+
+interface FakeSource {
+  buffer: { duration: number } | null;
+  startedAt?: number;
+  stopped: boolean;
+  onended: (() => void) | null;
+  connect(): void;
+  start(when: number): void;
+  stop(): void;
+}
+
+/** Just enough of an AudioContext for the engine, with a clock the test moves by hand. */
+class FakeAudioContext {
+  currentTime = 0;
+  state = 'running';
+  destination = {};
+  sources: FakeSource[] = [];
+
+  createGain() {
+    return { gain: { setTargetAtTime() {} }, connect() {} };
+  }
+
+  createBuffer(channels: number, frames: number, sampleRate: number) {
+    const data = Array.from({ length: channels }, () => new Float32Array(frames));
+    return { duration: frames / sampleRate, getChannelData: (channel: number) => data[channel] };
+  }
+
+  createBufferSource(): FakeSource {
+    const source: FakeSource = {
+      buffer: null,
+      stopped: false,
+      onended: null,
+      connect() {},
+      start(when) { source.startedAt = when; },
+      stop() { source.stopped = true; },
+    };
+    this.sources.push(source);
+    return source;
+  }
+
+  async resume() {}
+  async close() {}
+}
+
+/** Silent 16-bit mono PCM lasting `seconds`, base64 encoded like the TTS and live payloads. */
+function pcm(seconds: number): string {
+  return encode(new Uint8Array(Math.round(seconds * SAMPLE_RATE) * 2));
+}
+
+describe('AudioPlaybackEngine', () => {
+  let ctx: FakeAudioContext;
+  let engine: AudioPlaybackEngine;
+  let events: PlaybackEvent[];
+
+  beforeEach(() => {
+    decodeGate.wait = null;
+    ctx = new FakeAudioContext();
+    engine = new AudioPlaybackEngine({ createContext: () => ctx as unknown as AudioContext });
+    events = [];
+    engine.on(event => events.push(event));
+  });
+
+  it('schedules chunks back to back in the order they were queued', async () => {
+    const startsIn = [
+      await engine.enqueue(pcm(0.5)),
+      await engine.enqueue(pcm(0.25)),
+      await engine.enqueue(pcm(1)),
+    ];
+
+    expect(ctx.sources.map(s => s.startedAt)).toEqual([0, 0.5, 0.75]);
+    expect(startsIn).toEqual([0, 0.5, 0.75]);
+  });
+
+  it('starts a chunk queued after a gap at the current time, not in the past', async () => {
+    await engine.enqueue(pcm(0.5));
+    ctx.currentTime = 2;
+    await engine.enqueue(pcm(0.5));
+
+    expect(ctx.sources[1].startedAt).toBe(2);
+  });
+
+  it('drops a chunk whose decode finishes after an interrupt', async () => {
+    let release!: () => void;
+    decodeGate.wait = new Promise(resolve => { release = resolve; });
+
+    const late = engine.enqueue(pcm(0.5));
+    engine.interrupt();
+    release();
+
+    await expect(late).resolves.toBeUndefined();
+    expect(ctx.sources).toHaveLength(0);
+    expect(engine.isBusy).toBe(false);
+    expect(events).toEqual(['buffering', 'interrupted']);
+  });
+
+  it('stops playing sources on interrupt and ignores their ended callbacks', async () => {
+    await engine.enqueue(pcm(0.5));
+    const [source] = ctx.sources;
+    engine.interrupt();
+
+    expect(source.stopped).toBe(true);
+    expect(source.onended).toBeNull();
+    expect(events).toEqual(['buffering', 'playing', 'interrupted']);
+  });
+
+  it('accepts new audio after an interrupt', async () => {
+    const ticket = engine.markBuffering();
+    engine.interrupt();
+
+    await expect(engine.enqueue(pcm(0.5), ticket)).resolves.toBeUndefined();
+    await expect(engine.enqueue(pcm(0.5))).resolves.toBe(0);
+  });
+
+  it('reports buffering, then playing, then idle once the queue drains', async () => {
+    engine.markBuffering();
+    await engine.enqueue(pcm(0.5));
+    await engine.enqueue(pcm(0.5));
+    expect(events).toEqual(['buffering', 'playing']);
+
+    ctx.sources[0].onended?.();
+    expect(events).toEqual(['buffering', 'playing']);
+    ctx.sources[1].onended?.();
+    expect(events).toEqual(['buffering', 'playing', 'idle']);
+    expect(engine.isBusy).toBe(false);
+  });
+
+  it('goes back to buffering between the chunks of an open run', async () => {
+    const ticket = engine.beginRun();
+    await engine.enqueue(pcm(0.5), ticket);
+    ctx.sources[0].onended?.();
+    expect(events).toEqual(['buffering', 'playing', 'buffering']);
+
+    await engine.enqueue(pcm(0.5), ticket);
+    engine.endRun(ticket);
+    ctx.sources[1].onended?.();
+    expect(events).toEqual(['buffering', 'playing', 'buffering', 'playing', 'idle']);
+  });
+});
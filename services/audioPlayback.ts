@@ -0,0 +1,205 @@
+import { decode, decodeAudioData } from './audioUtils';
+
+export const PLAYBACK_SAMPLE_RATE = 24000;
+
+/**
+ * - `buffering`: audio has been requested but nothing is audible yet
+ * - `playing`: the first chunk of a run has started
+ * - `idle`: the queue drained, or buffering was abandoned
+ * - `interrupted`: playback was cut off (barge-in or cancel)
+ */
+export type PlaybackEvent = 'buffering' | 'playing' | 'idle' | 'interrupted';
+
+export interface PlaybackEngineOptions {
+  sampleRate?: number;
+  /** Level applied while ducked, relative to the user's volume. */
+  duckLevel?: number;
+  /** Injected for tests; defaults to a real AudioContext at `sampleRate`. */
+  createContext?: (sampleRate: number) => AudioContext;
+}
+
+const GAIN_RAMP_SECONDS = 0.05;
+
+/**
+ * Owns the output AudioContext and plays 24 kHz PCM chunks back to back
+ * without gaps. Both the TTS path and the live session feed it; consumers
+ * follow playback through `on()` rather than tracking sources themselves.
+ */
+export class AudioPlaybackEngine {
+  private readonly ctx: AudioContext;
+  private readonly volumeGain: GainNode;
+  private readonly duckGain: GainNode;
+  private readonly sampleRate: number;
+  private readonly duckLevel: number;
+  private readonly listeners = new Set<(event: PlaybackEvent) => void>();
+  private readonly sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private pending = 0;
+  private buffering = false;
+  // Runs still expecting chunks; while any are open, draining the queue means waiting, not idle.
+  private openRuns = 0;
+  // Bumped on interrupt so chunks still decoding from before the cut are dropped.
+  private generation = 0;
+  private volume = 1;
+  private muted = false;
+
+  constructor(options: PlaybackEngineOptions = {}) {
+    this.sampleRate = options.sampleRate ?? PLAYBACK_SAMPLE_RATE;
+    this.duckLevel = options.duckLevel ?? 0.25;
+    this.ctx = (options.createContext ?? (rate => new AudioContext({ sampleRate: rate })))(this.sampleRate);
+    this.volumeGain = this.ctx.createGain();
+    this.duckGain = this.ctx.createGain();
+    this.duckGain.connect(this.volumeGain);
+    this.volumeGain.connect(this.ctx.destination);
+  }
+
+  on(listener: (event: PlaybackEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get isPlaying(): boolean {
+    return this.sources.size > 0;
+  }
+
+  get isBusy(): boolean {
+    return this.isPlaying || this.buffering || this.pending > 0;
+  }
+
+  async resume(): Promise<void> {
+    if (this.ctx.state === 'suspended') await this.ctx.resume();
+  }
+
+  /**
+   * Signals that audio is on its way (e.g. a TTS request is in flight). Returns a
+   * ticket to pass to `enqueue`, so audio that arrives after an interrupt is dropped.
+   */
+  markBuffering(): number {
+    if (!this.isPlaying && !this.buffering) {
+      this.buffering = true;
+      this.emit('buffering');
+    }
+    return this.generation;
+  }
+
+  /** Abandons a `markBuffering` that will not produce audio. */
+  cancelBuffering() {
+    if (!this.buffering || this.openRuns > 0) return;
+    this.buffering = false;
+    if (!this.isPlaying && this.pending === 0) this.emit('idle');
+  }
+
+  /**
+   * Like `markBuffering`, for audio that arrives in several chunks with gaps between
+   * them (sentence-by-sentence speech). Until `endRun`, a drained queue reports
+   * `buffering` rather than `idle`.
+   */
+  beginRun(): number {
+    this.openRuns++;
+    return this.markBuffering();
+  }
+
+  endRun(ticket: number) {
+    if (ticket !== this.generation || this.openRuns === 0) return;
+    this.openRuns--;
+    if (this.openRuns === 0 && !this.isPlaying && this.pending === 0) {
+      this.buffering = false;
+      this.emit('idle');
+    }
+  }
+
+  /**
+   * Decodes a base64 PCM chunk and schedules it directly after whatever is already queued.
+   * Resolves to the seconds until it starts playing, or undefined if it was dropped.
+   */
+  async enqueue(base64Pcm: string, ticket: number = this.generation): Promise<number | undefined> {
+    const generation = ticket;
+    if (generation !== this.generation) return undefined;
+    this.pending++;
+    if (!this.isPlaying) this.markBuffering();
+    let buffer: AudioBuffer;
+    try {
+      buffer = await decodeAudioData(decode(base64Pcm), this.ctx, this.sampleRate, 1);
+    } catch (e) {
+      this.pending--;
+      this.cancelBuffering();
+      throw e;
+    }
+    this.pending--;
+    if (generation !== this.generation) return undefined;
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.duckGain);
+    source.onended = () => {
+      this.sources.delete(source);
+      if (this.sources.size === 0 && this.pending === 0 && generation === this.generation) {
+        this.nextStartTime = 0;
+        if (this.openRuns > 0) {
+          this.buffering = true;
+          this.emit('buffering');
+        } else {
+          this.emit('idle');
+        }
+      }
+    };
+    const startTime = Math.max(this.ctx.currentTime, this.nextStartTime);
+    source.start(startTime);
+    this.nextStartTime = startTime + buffer.duration;
+
+    const wasPlaying = this.isPlaying;
+    this.sources.add(source);
+    this.buffering = false;
+    if (!wasPlaying) this.emit('playing');
+    return startTime - this.ctx.currentTime;
+  }
+
+  /** Stops everything queued or playing. Emits `interrupted` only if there was something to cut. */
+  interrupt() {
+    const hadAudio = this.isBusy;
+    this.generation++;
+    this.buffering = false;
+    this.openRuns = 0;
+    this.sources.forEach(s => {
+      s.onended = null;
+      try { s.stop(); } catch (e) {}
+    });
+    this.sources.clear();
+    this.nextStartTime = 0;
+    if (hadAudio) this.emit('interrupted');
+  }
+
+  /** Lowers playback while the caller talks over the strategist, without stopping it. */
+  duck(active: boolean) {
+    this.ramp(this.duckGain, active ? this.duckLevel : 1);
+  }
+
+  setVolume(volume: number) {
+    this.volume = Math.min(1, Math.max(0, volume));
+    this.applyVolume();
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.applyVolume();
+    if (muted) this.interrupt();
+  }
+
+  async close(): Promise<void> {
+    this.interrupt();
+    this.listeners.clear();
+    await this.ctx.close();
+  }
+
+  private applyVolume() {
+    this.ramp(this.volumeGain, this.muted ? 0 : this.volume);
+  }
+
+  private ramp(node: GainNode, value: number) {
+    node.gain.setTargetAtTime(value, this.ctx.currentTime, GAIN_RAMP_SECONDS);
+  }
+
+  private emit(event: PlaybackEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Per-session event log for compliance review and for diagnosing dropped lines.
+ * It lives only as long as the session and is exported on request as JSONL.
+ */
+
+export type AuditEventType =
+  | 'session-start'
+  | 'status'
+  | 'message-sent'
+  | 'first-token'
+  | 'tool-call'
+  | 'message-received'
+  | 'message-failed'
+  | 'usage'
+  | 'tts'
+  | 'tts-failed'
+  | 'live-open'
+  | 'live-close'
+  | 'live-error';
+
+export type AuditDetail = Record<string, string | number | boolean | undefined>;
+
+export interface AuditEvent {
+  /** Epoch milliseconds. */
+  at: number;
+  type: AuditEventType;
+  /** Duration the event measures, e.g. send to first token. */
+  ms?: number;
+  detail?: AuditDetail;
+  /** Message text; never recorded while redaction is on. */
+  content?: string;
+}
+
+// A long voice call logs a few events per turn; this keeps hours of them.
+const MAX_AUDIT_EVENTS = 2000;
+
+export interface AuditFields {
+  ms?: number;
+  detail?: AuditDetail;
+  content?: string;
+}
+
+/**
+ * Appends one event, oldest dropped first past the cap. `content` is kept only
+ * when `recordContent` is true, so callers pass it unconditionally.
+ */
+export function appendAuditEvent(
+  events: AuditEvent[],
+  type: AuditEventType,
+  { ms, detail, content }: AuditFields,
+  recordContent: boolean,
+): AuditEvent[] {
+  const event: AuditEvent = {
+    at: Date.now(),
+    type,
+    ...(ms !== undefined ? { ms: Math.round(ms) } : {}),
+    ...(detail ? { detail } : {}),
+    ...(recordContent && content ? { content } : {}),
+  };
+  const next = [...events, event];
+  return next.length > MAX_AUDIT_EVENTS ? next.slice(-MAX_AUDIT_EVENTS) : next;
+}
+
+/** For turning redaction on mid-session: text logged before then is withheld too. */
+export function withoutContent(events: AuditEvent[]): AuditEvent[] {
+  return events.map(({ content, ...event }) => event);
+}
+
+/** One JSON object per line: a session header, then the events in order. */
+export function renderAuditJsonl(session: AuditDetail, events: AuditEvent[]): string {
+  const header = { type: 'session', exportedAt: new Date().toISOString(), ...session };
+  const lines = events.map(e => JSON.stringify({ ...e, at: new Date(e.at).toISOString() }));
+  return [JSON.stringify(header), ...lines].join('\n') + '\n';
+}
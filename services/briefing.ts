@@ -0,0 +1,184 @@
+import { Transcription } from '../types';
+import { ModelProvider } from './providers';
+import { TextPrivacy } from './redaction';
+import { describeAttachments } from './attachments';
+
+export interface BriefingSummary {
+  summary: string;
+  actions: string[];
+}
+
+export interface Briefing extends BriefingSummary {
+  id: string;
+  /** Firm name for the print header. */
+  firm: string;
+  title: string;
+  generatedAt: number;
+  transcriptions: Transcription[];
+}
+
+const SUMMARY_INSTRUCTION = `
+You prepare incident briefings for a crisis communications team.
+Given a consultation transcript, reply in exactly this format and nothing else:
+SUMMARY:
+<three to five sentences: the situation, what is at stake, and the recommended posture>
+ACTIONS:
+- <one concrete next action per line, most urgent first>
+`;
+
+const SPEAKERS: Record<Transcription['type'], string> = {
+  user: 'Client',
+  model: 'Strategist',
+  link: 'Link',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function withAttachments(t: Transcription): string {
+  return [describeAttachments(t), t.text].filter(Boolean).join(' ');
+}
+
+function transcriptAsText(transcriptions: Transcription[]): string {
+  return transcriptions
+    .map(t => `[${formatTime(t.timestamp)}] ${SPEAKERS[t.type]}: ${t.type === 'link' ? `${t.metadata?.title ?? t.text} <${t.metadata?.url ?? ''}>` : withAttachments(t)}`)
+    .join('\n');
+}
+
+export function parseSummary(raw: string): BriefingSummary {
+  const summaryMatch = raw.match(/SUMMARY:\s*([\s\S]*?)(?:\n\s*ACTIONS:|$)/i);
+  const actionsMatch = raw.match(/ACTIONS:\s*([\s\S]*)$/i);
+  const actions = (actionsMatch?.[1] ?? '')
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(Boolean);
+  return { summary: (summaryMatch?.[1] ?? raw).trim(), actions };
+}
+
+export async function generateBriefingSummary(
+  provider: ModelProvider,
+  transcriptions: Transcription[],
+  privacy?: TextPrivacy,
+): Promise<BriefingSummary> {
+  let raw = '';
+  const transcript = transcriptAsText(transcriptions);
+  const stream = provider.streamChat({
+    systemInstruction: SUMMARY_INSTRUCTION,
+    history: [],
+    message: { role: 'user', parts: [{ text: privacy ? privacy.redact(transcript) : transcript }] },
+  });
+  for await (const chunk of stream) raw += chunk.text;
+  const parsed = parseSummary(raw);
+  if (!privacy) return parsed;
+  return { summary: privacy.restore(parsed.summary), actions: parsed.actions.map(privacy.restore) };
+}
+
+export function renderMarkdown(briefing: Briefing): string {
+  const lines = [
+    `# Incident Briefing: ${briefing.title}`,
+    '',
+    `*Consultation ${briefing.id} · generated ${formatTime(briefing.generatedAt)}*`,
+    '',
+    '## Executive Summary',
+    '',
+    briefing.summary,
+    '',
+    '## Action List',
+    '',
+    ...(briefing.actions.length ? briefing.actions.map((a, i) => `${i + 1}. ${a}`) : ['_No actions identified._']),
+    '',
+    '## Transcript',
+    '',
+  ];
+  for (const t of briefing.transcriptions) {
+    const body = t.type === 'link' ? `[${t.metadata?.title ?? t.text}](${t.metadata?.url ?? ''})` : withAttachments(t).replace(/\n/g, '  \n');
+    lines.push(`**[${formatTime(t.timestamp)}] ${SPEAKERS[t.type]}:** ${body}`, '');
+  }
+  return lines.join('\n');
+}
+
+export function renderJson(briefing: Briefing): string {
+  return JSON.stringify({
+    id: briefing.id,
+    title: briefing.title,
+    generatedAt: new Date(briefing.generatedAt).toISOString(),
+    summary: briefing.summary,
+    actions: briefing.actions,
+    transcript: briefing.transcriptions.map(t => ({
+      timestamp: new Date(t.timestamp).toISOString(),
+      speaker: SPEAKERS[t.type].toLowerCase(),
+      text: t.text,
+      ...(t.metadata ? { metadata: t.metadata } : {}),
+      ...(t.attachments?.length ? { attachments: t.attachments.map(({ name, mimeType, size }) => ({ name, mimeType, size })) } : {}),
+    })),
+  }, null, 2);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+export function renderPrintHtml(briefing: Briefing): string {
+  const actions = briefing.actions.length
+    ? `<ol>${briefing.actions.map(a => `<li>${escapeHtml(a)}</li>`).join('')}</ol>`
+    : '<p><em>No actions identified.</em></p>';
+  const transcript = briefing.transcriptions.map(t => {
+    const body = t.type === 'link'
+      ? `<a href="${escapeHtml(t.metadata?.url ?? '')}">${escapeHtml(t.metadata?.title ?? t.text)}</a>`
+      : escapeHtml(withAttachments(t)).replace(/\n/g, '<br>');
+    return `<div class="entry ${t.type}"><div class="meta">${escapeHtml(formatTime(t.timestamp))} · ${SPEAKERS[t.type]}</div><div>${body}</div></div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Incident Briefing: ${escapeHtml(briefing.title)}</title>
+<style>
+  body { font-family: 'Inter', Helvetica, Arial, sans-serif; color: #0f172a; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  header { border-bottom: 3px solid #2563eb; padding-bottom: 12px; margin-bottom: 24px; }
+  header .firm { font-size: 11px; letter-spacing: 0.2em; text-transform: uppercase; color: #2563eb; font-weight: 700; }
+  h1 { font-size: 22px; margin: 6px 0; }
+  h2 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.1em; color: #334155; margin-top: 28px; }
+  .meta { font-size: 11px; color: #64748b; }
+  .summary { background: #eff6ff; border-left: 4px solid #2563eb; padding: 12px 16px; }
+  .entry { padding: 8px 0; border-bottom: 1px solid #e2e8f0; page-break-inside: avoid; }
+  .entry.user .meta { color: #2563eb; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<header>
+  <div class="firm">${escapeHtml(briefing.firm)} · Confidential</div>
+  <h1>${escapeHtml(briefing.title)}</h1>
+  <div class="meta">Consultation ${escapeHtml(briefing.id)} · generated ${escapeHtml(formatTime(briefing.generatedAt))}</div>
+</header>
+<h2>Executive Summary</h2>
+<div class="summary">${escapeHtml(briefing.summary).replace(/\n/g, '<br>')}</div>
+<h2>Action List</h2>
+${actions}
+<h2>Transcript</h2>
+${transcript}
+</body>
+</html>`;
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Opens the briefing in a new window and hands it to the browser's print dialog (Save as PDF). */
+export function openPrintView(briefing: Briefing) {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('Popup blocked: allow popups to print the briefing.');
+  win.document.write(renderPrintHtml(briefing));
+  win.document.close();
+  win.focus();
+  setTimeout(() => win.print(), 250);
+}
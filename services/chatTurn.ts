@@ -0,0 +1,97 @@
+import { Content, FunctionDeclaration, Part } from '@google/genai';
+import { Citation, ModelProvider, TokenUsage, ToolCall, ToolResponse } from './providers';
+
+// Guards against a model that keeps calling tools without ever answering. After this many
+// rounds the tool results go back once more without tools, so the turn ends on a model reply.
+const MAX_TOOL_ROUNDS = 4;
+
+export interface ChatTurnOptions {
+  provider: ModelProvider;
+  systemInstruction: string | (() => string);
+  history: Content[];
+  message: Content;
+  tools?: FunctionDeclaration[];
+  /** Allow web search; cited pages are collected into `sources`. */
+  grounding?: boolean;
+  signal?: AbortSignal;
+  /** Called once, when the first chunk of any kind arrives: text, a tool call or metadata. */
+  onFirstChunk?: () => void;
+  /** Receives the accumulated reply text as it streams. */
+  onText?: (text: string) => void;
+  onToolCall?: (call: ToolCall) => Promise<Record<string, unknown>> | Record<string, unknown>;
+}
+
+export interface ChatTurnResult {
+  text: string;
+  /** `history` plus every turn exchanged, including tool calls and responses. */
+  history: Content[];
+  /** Pages cited across the turn, first citation first, without duplicates. */
+  sources: Citation[];
+  /** Summed over every request the turn made, when the provider reports usage. */
+  usage?: TokenUsage;
+}
+
+function addUsage(total: TokenUsage | undefined, round: TokenUsage | undefined): TokenUsage | undefined {
+  if (!round) return total;
+  if (!total) return round;
+  return {
+    promptTokens: total.promptTokens + round.promptTokens,
+    responseTokens: total.responseTokens + round.responseTokens,
+    totalTokens: total.totalTokens + round.totalTokens,
+  };
+}
+
+/**
+ * Sends one user message and streams the reply, resolving any tool calls
+ * along the way and feeding their results back until the model answers in text.
+ */
+export async function runChatTurn(options: ChatTurnOptions): Promise<ChatTurnResult> {
+  const { provider, tools, grounding, signal, onFirstChunk, onText, onToolCall } = options;
+  let history = options.history;
+  let input = options.message;
+  let text = '';
+  const sources: Citation[] = [];
+  let usage: TokenUsage | undefined;
+  let received = false;
+
+  for (let round = 0; ; round++) {
+    const final = round === MAX_TOOL_ROUNDS;
+    const systemInstruction = typeof options.systemInstruction === 'function' ? options.systemInstruction() : options.systemInstruction;
+    const modelParts: Part[] = [];
+    const calls: ToolCall[] = [];
+    let roundUsage: TokenUsage | undefined;
+
+    for await (const chunk of provider.streamChat({ systemInstruction, history, message: input, tools: final ? undefined : tools, grounding, signal })) {
+      if (!received) onFirstChunk?.();
+      received = true;
+      chunk.sources?.forEach(source => {
+        if (!sources.some(s => s.url === source.url)) sources.push(source);
+      });
+      if (chunk.text) {
+        text += chunk.text;
+        onText?.(text);
+      }
+      // Calls made without tools declared would be left unanswered, so the final round keeps text only.
+      modelParts.push(...(final ? chunk.parts.filter(p => !p.functionCall) : chunk.parts));
+      if (chunk.functionCalls && !final) calls.push(...chunk.functionCalls);
+      if (chunk.usage) roundUsage = chunk.usage;
+    }
+    usage = addUsage(usage, roundUsage);
+
+    history = [...history, input];
+    if (modelParts.length) history = [...history, { role: 'model', parts: modelParts }];
+    if (!calls.length || !onToolCall || final) return { text, history, sources, usage };
+
+    const responses: ToolResponse[] = [];
+    for (const call of calls) {
+      let response: Record<string, unknown>;
+      try {
+        response = await onToolCall(call);
+      } catch (e) {
+        response = { error: e instanceof Error ? e.message : String(e) };
+      }
+      responses.push({ id: call.id, name: call.name, response });
+    }
+    input = { role: 'user', parts: responses.map(r => ({ functionResponse: r })) };
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectionAction, ConnectionState, connectionReducer, initialConnectionState } from './connectionState';
+
+const run = (state: ConnectionState, ...actions: ConnectionAction[]) => actions.reduce(connectionReducer, state);
+const listening = run(initialConnectionState(true), { type: 'ready' });
+
+describe('connectionReducer', () => {
+  it('starts offline without a network and connecting with one', () => {
+    expect(initialConnectionState(false).status).toBe('offline');
+    expect(initialConnectionState(true).status).toBe('connecting');
+    expect(listening.status).toBe('listening');
+  });
+
+  it('stays offline whatever else happens until the network returns', () => {
+    const offline = run(listening, { type: 'offline' });
+    const after = run(
+      offline,
+      { type: 'chat-sending' },
+      { type: 'playback', event: 'playing' },
+      { type: 'retrying', attempt: 1, of: 3, channel: 'chat' },
+      { type: 'ready' },
+    );
+
+    expect(after.status).toBe('offline');
+    expect(run(after, { type: 'online' }).status).toBe('listening');
+  });
+
+  it('records a failed voice line while offline without leaving offline', () => {
+    const state = run(listening, { type: 'offline' }, { type: 'line-failed', reason: 'agent.lineFailed' });
+
+    expect(state.status).toBe('offline');
+    expect(state.degraded).toEqual({ source: 'voice-line', reason: 'agent.lineFailed' });
+    expect(run(state, { type: 'online' }).status).toBe('degraded');
+  });
+
+  it('moves through a chat turn and settles back to listening', () => {
+    const actions: ConnectionAction[] = [{ type: 'chat-sending' }, { type: 'chat-awaiting' }, { type: 'chat-done' }];
+    let state = listening;
+    const seen = actions.map(action => (state = connectionReducer(state, action)).status);
+
+    expect(seen).toEqual(['processing', 'awaiting', 'listening']);
+  });
+
+  it('keeps speaking when the request finishes while the reply is still being spoken', () => {
+    const speaking = run(listening, { type: 'chat-sending' }, { type: 'chat-awaiting' }, { type: 'playback', event: 'playing' });
+    expect(speaking.status).toBe('speaking');
+
+    const done = run(speaking, { type: 'chat-done' });
+    expect(done.status).toBe('speaking');
+    expect(run(done, { type: 'playback', event: 'buffering' }).status).toBe('buffering');
+    expect(run(done, { type: 'playback', event: 'idle' }).status).toBe('listening');
+  });
+
+  it('degrades to text when speech fails and recovers once audio plays again', () => {
+    const failed = run(listening, { type: 'playback', event: 'buffering' }, { type: 'speech-failed', reason: 'agent.speechFailed' });
+
+    expect(failed.status).toBe('degraded');
+    expect(failed.degraded).toEqual({ source: 'speech', reason: 'agent.speechFailed' });
+
+    const recovered = run(failed, { type: 'playback', event: 'playing' });
+    expect(recovered.status).toBe('speaking');
+    expect(recovered.degraded).toBeNull();
+  });
+
+  it('keeps reporting a dead voice line over a later speech failure', () => {
+    const state = run(listening, { type: 'line-failed', reason: 'agent.lineFailed' }, { type: 'speech-failed', reason: 'agent.speechFailed' });
+
+    expect(state.degraded?.source).toBe('voice-line');
+  });
+
+  it('holds a failed message as an error until the next send', () => {
+    const failed = run(listening, { type: 'chat-sending' }, { type: 'chat-failed', error: 'Upstream model error.' });
+
+    expect(failed).toMatchObject({ status: 'error', error: 'Upstream model error.' });
+    expect(run(failed, { type: 'chat-sending' })).toMatchObject({ status: 'processing', error: null });
+  });
+});
@@ -0,0 +1,119 @@
+import { PlaybackEvent } from './audioPlayback';
+import { MessageKey } from './i18n';
+
+/**
+ * - `connecting`: the voice line is being opened for the first time
+ * - `listening`: idle and ready for the caller
+ * - `processing` / `awaiting`: a chat turn is in flight
+ * - `buffering` / `speaking`: strategist audio is on its way or playing
+ * - `reconnecting`: a request or the voice line failed and a retry is scheduled
+ * - `degraded`: usable, but voice is unavailable and the strategist continues by text
+ * - `offline`: the browser has no network; messages wait until it returns
+ * - `error`: the last message could not be delivered and is waiting for a manual retry
+ */
+export type AgentStatus =
+  | 'connecting'
+  | 'listening'
+  | 'processing'
+  | 'awaiting'
+  | 'buffering'
+  | 'speaking'
+  | 'reconnecting'
+  | 'degraded'
+  | 'offline'
+  | 'error';
+
+export interface Degradation {
+  /** The voice line can't be used at all, or only spoken replies failed. */
+  source: 'voice-line' | 'speech';
+  /** Message key, so the reason follows the UI language. */
+  reason: MessageKey;
+}
+
+export interface ConnectionState {
+  status: AgentStatus;
+  /** While set, the resting status is `degraded` instead of `listening`. */
+  degraded: Degradation | null;
+  /** Current retry attempt, its limit and what is being retried while `reconnecting`. */
+  retry: { attempt: number; of: number; channel: 'chat' | 'voice-line' } | null;
+  /** Technical detail of the last delivery failure. */
+  error: string | null;
+}
+
+export type ConnectionAction =
+  | { type: 'ready' }
+  | { type: 'line-connecting' }
+  | { type: 'line-open' }
+  | { type: 'line-failed'; reason: MessageKey }
+  | { type: 'chat-sending' }
+  | { type: 'chat-awaiting' }
+  | { type: 'chat-done' }
+  | { type: 'chat-failed'; error: string }
+  | { type: 'retrying'; attempt: number; of: number; channel: 'chat' | 'voice-line' }
+  | { type: 'speech-failed'; reason: MessageKey }
+  | { type: 'playback'; event: PlaybackEvent }
+  | { type: 'offline' }
+  | { type: 'online' };
+
+export function initialConnectionState(online: boolean = navigator.onLine): ConnectionState {
+  return { status: online ? 'connecting' : 'offline', degraded: null, retry: null, error: null };
+}
+
+const resting = (state: ConnectionState): AgentStatus => (state.degraded ? 'degraded' : 'listening');
+
+const settle = (state: ConnectionState, patch: Partial<ConnectionState> = {}): ConnectionState => {
+  const next = { ...state, retry: null, error: null, ...patch };
+  return { ...next, status: resting(next) };
+};
+
+export function connectionReducer(state: ConnectionState, action: ConnectionAction): ConnectionState {
+  // Offline wins over everything until the network returns.
+  if (state.status === 'offline' && action.type !== 'online' && action.type !== 'line-failed') return state;
+
+  switch (action.type) {
+    case 'ready':
+      return state.status === 'connecting' ? settle(state) : state;
+    case 'line-connecting':
+      return { ...state, status: 'connecting', retry: null, error: null };
+    case 'line-open':
+      return settle(state, { degraded: null });
+    case 'line-failed': {
+      const degraded: Degradation = { source: 'voice-line', reason: action.reason };
+      return state.status === 'offline' ? { ...state, degraded } : settle(state, { degraded });
+    }
+    case 'chat-sending':
+      return { ...state, status: 'processing', retry: null, error: null };
+    case 'chat-awaiting':
+      return { ...state, status: 'awaiting', retry: null };
+    case 'chat-done':
+      // Replies are spoken sentence by sentence while they stream, so speech may outlast the request.
+      return state.status === 'speaking' || state.status === 'buffering' ? { ...state, retry: null, error: null } : settle(state);
+    case 'chat-failed':
+      return { ...state, status: 'error', retry: null, error: action.error };
+    case 'retrying':
+      return { ...state, status: 'reconnecting', retry: { attempt: action.attempt, of: action.of, channel: action.channel } };
+    case 'speech-failed': {
+      // A dead voice line is the bigger problem; keep reporting that one.
+      const degraded: Degradation = state.degraded?.source === 'voice-line' ? state.degraded : { source: 'speech', reason: action.reason };
+      return state.status === 'buffering' || state.status === 'listening'
+        ? settle(state, { degraded })
+        : { ...state, degraded };
+    }
+    case 'playback':
+      if (action.event === 'buffering') {
+        // From `speaking`: waiting on the next sentence of a reply.
+        return ['listening', 'degraded', 'speaking'].includes(state.status) ? { ...state, status: 'buffering' } : state;
+      }
+      if (action.event === 'playing') {
+        // Audio is flowing again, so a speech failure is behind us. From `awaiting`: the reply is still streaming.
+        return ['listening', 'degraded', 'buffering', 'awaiting'].includes(state.status)
+          ? { ...state, status: 'speaking', degraded: state.degraded?.source === 'speech' ? null : state.degraded }
+          : state;
+      }
+      return state.status === 'speaking' || state.status === 'buffering' ? settle(state) : state;
+    case 'offline':
+      return { ...state, status: 'offline', retry: null };
+    case 'online':
+      return settle(state);
+  }
+}
@@ -0,0 +1,64 @@
+import { Consultation } from '../types';
+
+const DB_NAME = 'rk-crisis';
+const DB_VERSION = 1;
+const STORE = 'consultations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+export function newConsultationId(): string {
+  return crypto.randomUUID();
+}
+
+/** Short label for the session list, taken from the caller's first message. */
+export function deriveTitle(consultation: Pick<Consultation, 'transcriptions'>): string {
+  const opening = consultation.transcriptions.find(t => t.type === 'user');
+  // A caller who opens with only a screenshot still gets a recognisable title.
+  const first = opening?.text.trim() || opening?.attachments?.[0]?.name || '';
+  if (!first) return 'Untitled consultation';
+  return first.length > 80 ? `${first.slice(0, 77)}...` : first;
+}
+
+export function saveConsultation(consultation: Consultation): Promise<IDBValidKey> {
+  return run('readwrite', store => store.put(consultation));
+}
+
+export function getConsultation(id: string): Promise<Consultation | undefined> {
+  return run('readonly', store => store.get(id));
+}
+
+/** Most recently updated first. */
+export async function listConsultations(): Promise<Consultation[]> {
+  const all = await run<Consultation[]>('readonly', store => store.index('updatedAt').getAll());
+  return all.reverse();
+}
+
+export function deleteConsultation(id: string): Promise<undefined> {
+  return run('readwrite', store => store.delete(id));
+}
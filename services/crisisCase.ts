@@ -0,0 +1,114 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { CrisisCase, CrisisCaseField, CrisisDeadline, CrisisSeverity } from '../types';
+
+export const UPDATE_CRISIS_CASE = 'update_crisis_case';
+
+const SEVERITIES: CrisisSeverity[] = ['low', 'moderate', 'high', 'critical'];
+
+export const CRISIS_CASE_FIELDS: CrisisCaseField[] = [
+  'organization',
+  'incidentType',
+  'severity',
+  'stakeholders',
+  'knownFacts',
+  'mediaExposure',
+  'deadlines',
+];
+
+export const crisisCaseTool: FunctionDeclaration = {
+  name: UPDATE_CRISIS_CASE,
+  description:
+    'Record or revise structured facts about the client\'s crisis as they emerge. Call whenever the caller reveals ' +
+    'new case details. Send only the fields that changed; list fields must contain the complete updated list.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      organization: { type: Type.STRING, description: 'Name of the affected organization.' },
+      incidentType: { type: Type.STRING, description: 'Short category, e.g. "data breach", "executive misconduct", "product recall".' },
+      severity: { type: Type.STRING, enum: SEVERITIES, description: 'Assessed reputational severity.' },
+      stakeholders: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Affected or interested stakeholder groups.' },
+      knownFacts: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Verified facts stated by the caller.' },
+      mediaExposure: { type: Type.STRING, description: 'Current press and social media coverage.' },
+      deadlines: {
+        type: Type.ARRAY,
+        description: 'Time-bound commitments or pressures.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            description: { type: Type.STRING },
+            due: { type: Type.STRING, description: 'When, as stated by the caller.' },
+          },
+          required: ['description'],
+        },
+      },
+    },
+  },
+};
+
+export function emptyCrisisCase(): CrisisCase {
+  return { stakeholders: [], knownFacts: [], deadlines: [], lockedFields: [] };
+}
+
+function asStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim());
+}
+
+function asDeadlines(value: unknown): CrisisDeadline[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((d): d is { description: string; due?: unknown } => typeof d?.description === 'string' && d.description.trim() !== '')
+    .map(d => ({ description: d.description.trim(), ...(typeof d.due === 'string' && d.due ? { due: d.due } : {}) }));
+}
+
+/**
+ * Applies model-supplied tool arguments. Unknown or malformed values are
+ * dropped, and hand-corrected (locked) fields are left untouched.
+ * Returns the updated case and the fields that actually changed.
+ */
+export function applyCaseUpdate(current: CrisisCase, args: Record<string, unknown>): { next: CrisisCase; changed: CrisisCaseField[] } {
+  const incoming: { [F in CrisisCaseField]: CrisisCase[F] | undefined } = {
+    organization: typeof args.organization === 'string' ? args.organization.trim() : undefined,
+    incidentType: typeof args.incidentType === 'string' ? args.incidentType.trim() : undefined,
+    severity: SEVERITIES.includes(args.severity as CrisisSeverity) ? args.severity as CrisisSeverity : undefined,
+    stakeholders: asStringList(args.stakeholders),
+    knownFacts: asStringList(args.knownFacts),
+    mediaExposure: typeof args.mediaExposure === 'string' ? args.mediaExposure.trim() : undefined,
+    deadlines: asDeadlines(args.deadlines),
+  };
+
+  const next: CrisisCase = { ...current };
+  const changed: CrisisCaseField[] = [];
+  // Generic per field, so each value is checked against that field's type.
+  const apply = <F extends CrisisCaseField>(field: F, value: CrisisCase[F] | undefined) => {
+    if (value === undefined || current.lockedFields.includes(field)) return;
+    next[field] = value;
+    changed.push(field);
+  };
+  CRISIS_CASE_FIELDS.forEach(field => apply(field, incoming[field]));
+  if (changed.length) next.updatedAt = Date.now();
+  return { next, changed };
+}
+
+/** A hand edit from the side panel: applies the value and locks the field against model overwrites. */
+export function correctCaseField<F extends CrisisCaseField>(current: CrisisCase, field: F, value: CrisisCase[F]): CrisisCase {
+  return {
+    ...current,
+    [field]: value,
+    lockedFields: current.lockedFields.includes(field) ? current.lockedFields : [...current.lockedFields, field],
+    updatedAt: Date.now(),
+  };
+}
+
+export function unlockCaseField(current: CrisisCase, field: CrisisCaseField): CrisisCase {
+  return { ...current, lockedFields: current.lockedFields.filter(f => f !== field) };
+}
+
+/** Appended to the system instruction so the model sees the current case, including the client's corrections. */
+export function describeCaseForModel(crisisCase: CrisisCase): string {
+  const { lockedFields, updatedAt, ...fields } = crisisCase;
+  return `
+Case File: Maintain the structured case file with the ${UPDATE_CRISIS_CASE} tool as details emerge.
+Current case file: ${JSON.stringify(fields)}
+${lockedFields.length ? `Client-verified fields (treat as authoritative, do not update): ${lockedFields.join(', ')}.` : ''}`;
+}
@@ -0,0 +1,88 @@
+import { Content, FunctionDeclaration, Type } from '@google/genai';
+import { CrisisDocument, DocumentKind } from '../types';
+
+export const DRAFT_DOCUMENT = 'draft_document';
+
+export const DOCUMENT_KINDS: Record<DocumentKind, string> = {
+  holding_statement: 'Holding Statement',
+  press_release: 'Press Release',
+  staff_memo: 'Internal Staff Memo',
+  media_qa: 'Media Q&A',
+};
+
+export const draftDocumentTool: FunctionDeclaration = {
+  name: DRAFT_DOCUMENT,
+  description:
+    'Deliver a written communications artifact to the client\'s document pane. Use this instead of writing the ' +
+    'document into the conversation whenever the client asks for a statement, release, memo or Q&A. To revise an ' +
+    'existing document pass its documentId; the full revised text becomes a new version.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      kind: { type: Type.STRING, enum: Object.keys(DOCUMENT_KINDS), description: 'Type of document.' },
+      title: { type: Type.STRING, description: 'Short working title, e.g. "Holding statement: warehouse fire".' },
+      content: { type: Type.STRING, description: 'Complete document text in Markdown. Media Q&A uses "Q:" / "A:" pairs.' },
+      documentId: { type: Type.STRING, description: 'Set only when revising an existing document.' },
+    },
+    required: ['kind', 'title', 'content'],
+  },
+};
+
+/** Appended to the system instruction so the model can reference documents it has already drafted. */
+export function describeDocumentsForModel(documents: CrisisDocument[]): string {
+  if (!documents.length) return '';
+  const list = documents.map(d => `- ${d.id}: ${DOCUMENT_KINDS[d.kind]} "${d.title}" (version ${d.versions.length})`).join('\n');
+  return `\nDocuments already drafted (revise with ${DRAFT_DOCUMENT} and the documentId):\n${list}\n`;
+}
+
+export function latestVersion(doc: CrisisDocument) {
+  return doc.versions[doc.versions.length - 1];
+}
+
+/**
+ * Applies a draft_document call: a new document, or a new version of the one named by `documentId`.
+ * Throws on malformed arguments so the error is reported back to the model.
+ */
+export function applyDraft(
+  documents: CrisisDocument[],
+  args: Record<string, unknown>,
+  instruction?: string,
+): { documents: CrisisDocument[]; document: CrisisDocument } {
+  const kind = args.kind as DocumentKind;
+  if (!Object.hasOwn(DOCUMENT_KINDS, kind)) throw new Error(`Unknown document kind: ${String(args.kind)}`);
+  if (typeof args.content !== 'string' || !args.content.trim()) throw new Error('content is required.');
+  const title = typeof args.title === 'string' && args.title.trim() ? args.title.trim() : DOCUMENT_KINDS[kind];
+  const now = Date.now();
+  const version = { content: args.content.trim(), createdAt: now, source: 'model' as const, ...(instruction ? { instruction } : {}) };
+
+  const existing = typeof args.documentId === 'string' ? documents.find(d => d.id === args.documentId) : undefined;
+  if (existing) {
+    const document = { ...existing, title, versions: [...existing.versions, version], updatedAt: now };
+    return { documents: documents.map(d => (d.id === existing.id ? document : d)), document };
+  }
+  const document: CrisisDocument = { id: crypto.randomUUID(), kind, title, versions: [version], createdAt: now, updatedAt: now };
+  return { documents: [...documents, document], document };
+}
+
+export function addUserVersion(documents: CrisisDocument[], id: string, content: string): CrisisDocument[] {
+  const now = Date.now();
+  return documents.map(d => (d.id === id
+    ? { ...d, versions: [...d.versions, { content, createdAt: now, source: 'user' as const }], updatedAt: now }
+    : d));
+}
+
+/** The hidden chat turn sent for regenerate/refine actions in the document pane. */
+export function revisionRequest(doc: CrisisDocument, instruction?: string): Content {
+  const ask = instruction
+    ? `Revise the ${DOCUMENT_KINDS[doc.kind]} "${doc.title}" (documentId ${doc.id}) as follows: ${instruction}`
+    : `Write a fresh alternative draft of the ${DOCUMENT_KINDS[doc.kind]} "${doc.title}" (documentId ${doc.id}).`;
+  return {
+    role: 'user',
+    parts: [{ text: `${ask}\nCurrent version:\n${latestVersion(doc).content}\nDeliver it with ${DRAFT_DOCUMENT}; reply in one short sentence at most.` }],
+  };
+}
+
+export function documentFilename(doc: CrisisDocument, extension: string): string {
+  const slug = doc.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `${slug || doc.kind}-v${doc.versions.length}.${extension}`;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { parseDebrief } from './drill';
+
+const SPOKEN = [
+  'We recalled the seat as soon as our engineers confirmed the defect.',
+  'Our first concern is the families affected.',
+];
+
+function reply(lines: string[]): string {
+  return lines.join('\n');
+}
+
+describe('parseDebrief', () => {
+  it('reads scores, comments and quotes in category order', () => {
+    const debrief = parseDebrief(reply([
+      'OVERALL: 7',
+      'SUMMARY: Calm and on message.',
+      'TONE: 8 | Empathetic throughout.',
+      'QUOTE: "Our first concern is the families affected."',
+      'DISCIPLINE: 6 | Bridged back | mostly.',
+      'ADMISSIONS: 7 | Avoided speculation.',
+    ]), SPOKEN);
+
+    expect(debrief.overall).toBe(7);
+    expect(debrief.summary).toBe('Calm and on message.');
+    expect(debrief.scores.map(s => s.category)).toEqual(['discipline', 'admissions', 'tone']);
+    expect(debrief.scores[0].comment).toBe('Bridged back | mostly.');
+    expect(debrief.scores[2].excerpts).toEqual(['Our first concern is the families affected.']);
+  });
+
+  it('clamps out-of-range and unreadable scores to 1-10', () => {
+    const debrief = parseDebrief(reply([
+      'OVERALL: 14',
+      'DISCIPLINE: 0 | Off message.',
+      'ADMISSIONS: 11.6 | Careful.',
+      'TONE: high | Calm.',
+    ]), SPOKEN);
+
+    expect(debrief.overall).toBe(10);
+    expect(debrief.scores.map(s => s.score)).toEqual([1, 10, 1]);
+  });
+
+  it('averages the category scores when OVERALL is missing', () => {
+    const debrief = parseDebrief(reply(['DISCIPLINE: 4 | a', 'ADMISSIONS: 6 | b', 'TONE: 9 | c']), SPOKEN);
+
+    expect(debrief.overall).toBe(6);
+  });
+
+  it('falls back to the raw reply when it is not in the expected format', () => {
+    const raw = '{"overall": 7, "summary": "Calm"';
+    const debrief = parseDebrief(raw, SPOKEN);
+
+    expect(debrief).toEqual({ overall: 1, summary: raw, scores: [] });
+  });
+
+  it('drops quotes the spokesperson never said', () => {
+    const debrief = parseDebrief(reply([
+      'ADMISSIONS: 3 | Admitted fault.',
+      'QUOTE: We knew about the defect for months.',
+      'QUOTE: “as soon as our engineers   CONFIRMED the defect”',
+    ]), SPOKEN);
+
+    expect(debrief.scores[0].excerpts).toEqual(['as soon as our engineers   CONFIRMED the defect']);
+  });
+
+  it('ignores a quote that comes before any category', () => {
+    const debrief = parseDebrief(reply(['QUOTE: Our first concern is the families affected.', 'TONE: 8 | Calm.']), SPOKEN);
+
+    expect(debrief.scores[0].excerpts).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import { DrillCategory, DrillDebrief, DrillScenarioId, DrillScore, Language, Transcription } from '../types';
+import { LANGUAGES } from './i18n';
+import { ModelProvider } from './providers';
+import { TextPrivacy } from './redaction';
+
+interface DrillScenario {
+  /** For the model; the UI shows the translated `drill.<id>.*` messages. */
+  brief: string;
+  pressurePoints: string[];
+}
+
+export const DRILL_SCENARIOS: Record<DrillScenarioId, DrillScenario> = {
+  product_recall: {
+    brief: 'A children\'s car seat made by the organization has been linked to three injuries. A recall was announced this morning, '
+      + 'but internal emails suggest engineers raised the buckle defect eight months ago.',
+    pressurePoints: [
+      'When did leadership first know about the defect, and why the delay?',
+      'How many units are still in use, and will there be refunds?',
+      'Whether anyone will be disciplined or resign.',
+    ],
+  },
+  data_breach: {
+    brief: 'Personal and payment data of about two million customers has been posted on a criminal forum. '
+      + 'The organization detected the intrusion eleven days ago and has not yet notified customers.',
+    pressurePoints: [
+      'Why customers were not told for eleven days.',
+      'Whether card numbers and passwords were encrypted.',
+      'Whether a ransom was paid or is being negotiated.',
+    ],
+  },
+  workplace_accident: {
+    brief: 'An explosion at one of the organization\'s plants last night killed one worker and injured four. '
+      + 'A safety regulator cited the same plant for ventilation violations last year.',
+    pressurePoints: [
+      'Whether last year\'s violations were ever fixed.',
+      'The name of the worker who died and what the family has been told.',
+      'Whether the plant will stay open while the investigation runs.',
+    ],
+  },
+};
+
+export const DRILL_CATEGORIES: DrillCategory[] = ['discipline', 'admissions', 'tone'];
+
+/**
+ * Replaces the strategist persona for the whole drill. The opening question is
+ * shown as the greeting rather than sent in the history, so the reporter is told it.
+ */
+export function drillInstruction(scenario: DrillScenarioId, openingQuestion: string): string {
+  const { brief, pressurePoints } = DRILL_SCENARIOS[scenario];
+  return `
+Drill: This is a media-training exercise. You are an aggressive investigative reporter for a national news outlet, interviewing the user, who is the spokesperson for the organization below.
+Scenario: ${brief}
+Pressure points: ${pressurePoints.join(' ')}
+You opened the interview with: "${openingQuestion}"
+Conduct: Stay in character for the whole interview. Never coach, never praise, never summarise and never say this is an exercise. Ask one short, pointed question at a time, under 60 words so it works on a voice line. Call out evasions and repeat unanswered questions, use leading and either/or questions, quote the spokesperson's earlier words back at them, press for numbers, names, timelines and admissions of fault, and add a new damaging detail every few turns.
+`;
+}
+
+const DEBRIEF_INSTRUCTION = `
+You are a media trainer scoring a spokesperson's practice interview with a hostile reporter.
+Score each category from 1 to 10, where 10 is best:
+DISCIPLINE: stayed on a few clear key messages and bridged back to them.
+ADMISSIONS: avoided speculation, guesses and unverified admissions of fault or liability.
+TONE: calm, empathetic and credible under pressure; never defensive or dismissive.
+Reply in exactly this format and nothing else:
+OVERALL: <score>
+SUMMARY: <two or three sentences>
+DISCIPLINE: <score> | <one or two sentences>
+QUOTE: <the spokesperson's exact words that best illustrate the score>
+ADMISSIONS: <score> | <one or two sentences>
+QUOTE: <exact words>
+TONE: <score> | <one or two sentences>
+QUOTE: <exact words>
+Give up to two QUOTE lines per category, copied word for word from the Spokesperson lines of the transcript.
+`;
+
+function transcriptAsText(transcriptions: Transcription[]): string {
+  return transcriptions
+    .filter(t => t.type !== 'link')
+    .map(t => `${t.type === 'user' ? 'Spokesperson' : 'Reporter'}: ${t.text}`)
+    .join('\n');
+}
+
+const clampScore = (value: string) => Math.min(10, Math.max(1, Math.round(Number(value)))) || 1;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[“”"]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Reads the trainer's reply. Quotes that don't appear in what the spokesperson
+ * actually said are dropped, so the debrief never puts words in their mouth.
+ */
+export function parseDebrief(raw: string, spokenLines: string[]): Omit<DrillDebrief, 'generatedAt'> {
+  const spoken = spokenLines.map(normalize);
+  const scores = new Map<DrillCategory, DrillScore>();
+  let overall: number | undefined;
+  let summary = '';
+  let current: DrillScore | undefined;
+
+  for (const line of raw.split('\n').map(l => l.trim())) {
+    const [, label = '', value = ''] = line.match(/^([A-Z]+):\s*(.*)$/) ?? [];
+    const category = label.toLowerCase() as DrillCategory;
+    if (label === 'OVERALL') {
+      overall = clampScore(value);
+    } else if (label === 'SUMMARY') {
+      summary = value;
+    } else if (DRILL_CATEGORIES.includes(category)) {
+      const [score, ...comment] = value.split('|');
+      current = { category, score: clampScore(score), comment: comment.join('|').trim(), excerpts: [] };
+      scores.set(category, current);
+    } else if (label === 'QUOTE' && current) {
+      const quote = value.replace(/^["“]|["”]$/g, '').trim();
+      if (quote && spoken.some(s => s.includes(normalize(quote)))) current.excerpts.push(quote);
+    }
+  }
+
+  const ordered = DRILL_CATEGORIES.map(c => scores.get(c)).filter((s): s is DrillScore => !!s);
+  return {
+    overall: overall ?? (ordered.length ? Math.round(ordered.reduce((sum, s) => sum + s.score, 0) / ordered.length) : 1),
+    summary: summary || raw.trim(),
+    scores: ordered,
+  };
+}
+
+export async function generateDrillDebrief(
+  provider: ModelProvider,
+  transcriptions: Transcription[],
+  scenario: DrillScenarioId,
+  language: Language,
+  privacy?: TextPrivacy,
+): Promise<DrillDebrief> {
+  let raw = '';
+  const transcript = `Scenario: ${DRILL_SCENARIOS[scenario].brief}\n\n${transcriptAsText(transcriptions)}`;
+  const stream = provider.streamChat({
+    systemInstruction: `${DEBRIEF_INSTRUCTION}Write the summary and comments in ${LANGUAGES[language].englishName}; keep quotes in the language they were spoken.`,
+    history: [],
+    message: { role: 'user', parts: [{ text: privacy ? privacy.redact(transcript) : transcript }] },
+  });
+  for await (const chunk of stream) raw += chunk.text;
+  const restored = privacy ? privacy.restore(raw) : raw;
+  const spoken = transcriptions.filter(t => t.type === 'user').map(t => t.text);
+  return { ...parseDebrief(restored, spoken), generatedAt: Date.now() };
+}
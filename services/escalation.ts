@@ -0,0 +1,140 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { CrisisCase, Language, Transcription } from '../types';
+import { describeAttachments } from './attachments';
+import { translate } from './i18n';
+import { TenantPrincipal } from './tenantConfig';
+
+export const ESCALATE_TO_PRINCIPAL = 'escalate_to_principal';
+
+export interface EscalationContact {
+  name: string;
+  email: string;
+  /** International format, digits only. Without it the WhatsApp link lets the client pick the recipient. */
+  whatsapp: string;
+}
+
+/** The tenant's principal; `VITE_ESCALATION_WHATSAPP` overrides the configured number for a deployment. */
+export function escalationContact(principal: TenantPrincipal): EscalationContact {
+  const whatsapp = import.meta.env.VITE_ESCALATION_WHATSAPP ?? principal.whatsapp ?? '';
+  return { name: principal.name, email: principal.email, whatsapp: whatsapp.replace(/\D/g, '') };
+}
+
+export type EscalationUrgency = 'routine' | 'urgent' | 'immediate';
+
+export function escalateTool(principal: TenantPrincipal): FunctionDeclaration {
+  return {
+    name: ESCALATE_TO_PRINCIPAL,
+    description:
+      `Hand the consultation to ${principal.name} personally. Call when the client asks for a secure line, a private ` +
+      'evaluation or a human strategist, or when the situation needs senior judgement now. The client receives a ' +
+      'prepared briefing packet with direct email, WhatsApp and calendar options.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        summary: { type: Type.STRING, description: `Three to five sentences ${principal.firstName} needs before the first call.` },
+        urgency: { type: Type.STRING, enum: ['routine', 'urgent', 'immediate'] },
+        reason: { type: Type.STRING, description: 'Why this is being escalated now.' },
+      },
+      required: ['summary'],
+    },
+  };
+}
+
+export interface HandoffPacket {
+  subject: string;
+  urgency: EscalationUrgency;
+  body: string;
+}
+
+// mailto: bodies past ~1800 characters are silently dropped by several mail clients.
+const MAILTO_BODY_LIMIT = 1800;
+const RECENT_EXCHANGE_COUNT = 6;
+
+function bullet(label: string, value: string | undefined): string | null {
+  return value ? `${label}: ${value}` : null;
+}
+
+export function buildHandoffPacket(options: {
+  crisisCase: CrisisCase;
+  transcriptions: Transcription[];
+  summary: string;
+  urgency?: EscalationUrgency;
+  reason?: string;
+}): HandoffPacket {
+  const { crisisCase, transcriptions, summary, reason } = options;
+  const urgency = options.urgency ?? (crisisCase.severity === 'critical' ? 'immediate' : 'urgent');
+  const org = crisisCase.organization ?? 'Unnamed organization';
+  const recent = transcriptions
+    .filter(t => t.type !== 'link')
+    .slice(-RECENT_EXCHANGE_COUNT)
+    .map(t => `${t.type === 'user' ? 'Client' : 'Strategist'}: ${[describeAttachments(t), t.text].filter(Boolean).join(' ')}`);
+
+  const sections = [
+    `URGENCY: ${urgency.toUpperCase()}`,
+    reason ? `Reason for escalation: ${reason}` : null,
+    '',
+    'SUMMARY',
+    summary,
+    '',
+    'CASE DETAILS',
+    bullet('Organization', crisisCase.organization),
+    bullet('Incident', crisisCase.incidentType),
+    bullet('Severity', crisisCase.severity),
+    bullet('Stakeholders', crisisCase.stakeholders.join(', ')),
+    bullet('Media exposure', crisisCase.mediaExposure),
+    ...crisisCase.deadlines.map(d => `Deadline: ${d.description}${d.due ? ` (${d.due})` : ''}`),
+    ...crisisCase.knownFacts.map(f => `Fact: ${f}`),
+    '',
+    'RECENT EXCHANGE',
+    ...recent,
+  ];
+
+  return {
+    subject: `[${urgency.toUpperCase()}] Crisis escalation: ${org}${crisisCase.incidentType ? ` (${crisisCase.incidentType})` : ''}`,
+    urgency,
+    body: sections.filter((line): line is string => line !== null).join('\n'),
+  };
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 40)}\n\n[Packet truncated; full detail to follow]` : text;
+}
+
+function calendarLink(packet: HandoffPacket, contact: EscalationContact): string {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: packet.subject,
+    details: truncate(packet.body, MAILTO_BODY_LIMIT),
+    add: contact.email,
+  });
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
+
+/** Contact options rendered as `link` entries in the transcript, labelled in the client's language. */
+export function handoffLinks(packet: HandoffPacket, contact: EscalationContact, language: Language): Transcription[] {
+  const now = Date.now();
+  const mailto = `mailto:${contact.email}?subject=${encodeURIComponent(packet.subject)}&body=${encodeURIComponent(truncate(packet.body, MAILTO_BODY_LIMIT))}`;
+  const whatsappText = encodeURIComponent(`${packet.subject}\n\n${truncate(packet.body, MAILTO_BODY_LIMIT)}`);
+  const whatsapp = `https://wa.me/${contact.whatsapp}?text=${whatsappText}`;
+
+  return [
+    {
+      type: 'link',
+      text: translate(language, 'escalation.email', { email: contact.email }),
+      timestamp: now,
+      metadata: { url: mailto, title: translate(language, 'escalation.emailTitle', { name: contact.name }) },
+    },
+    {
+      type: 'link',
+      text: translate(language, 'escalation.whatsapp'),
+      timestamp: now,
+      metadata: { url: whatsapp, title: translate(language, 'escalation.whatsappTitle', { name: contact.name }) },
+    },
+    {
+      type: 'link',
+      text: translate(language, 'escalation.call'),
+      timestamp: now,
+      metadata: { url: calendarLink(packet, contact), title: translate(language, 'escalation.callTitle') },
+    },
+  ];
+}
@@ -0,0 +1,38 @@
+import { Transcription } from '../types';
+import { Citation } from './providers';
+
+/** Appended to the system instruction so the model knows whether it can check current coverage. */
+export function groundingInstruction(enabled: boolean): string {
+  return enabled
+    ? '\nSearch: You can search the web. Use it when the client asks about current coverage or public reaction, and rely on what you find rather than memory. '
+      + 'While search is on you cannot use your tools: the case file, document drafts and escalation are unavailable. If the client needs one of them, '
+      + 'tell them to turn web search off in the Privacy tab.\n'
+    : '\nSearch: Web search is off for this consultation. If asked about current coverage, say you cannot check it and ask the client what they have seen.\n';
+}
+
+// Sources come from the model's search results; a malformed URL is shown as it came rather than
+// throwing after the answer is already in the history.
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+/** One link entry per cited page, placed right after the answer that cited them. */
+export function citationLinks(sources: Citation[], timestamp: number): Transcription[] {
+  return sources.map(source => ({
+    type: 'link',
+    text: source.url,
+    timestamp,
+    metadata: { url: source.url, title: source.title || hostnameOf(source.url), citation: true },
+  }));
+}
+
+/** The citation entries that belong to the answer at `index`. */
+export function citationsFor(transcriptions: Transcription[], index: number): Transcription[] {
+  const cited: Transcription[] = [];
+  for (let i = index + 1; i < transcriptions.length && transcriptions[i].metadata?.citation; i++) cited.push(transcriptions[i]);
+  return cited;
+}
@@ -0,0 +1,227 @@
+import { Messages } from './en';
+
+export const de: Messages = {
+  'app.brandSubtitle': 'Krisenmanagement',
+  'app.tagline': 'Globale strategische PR & Medienarbeit',
+  'app.footer': '© {year} {firm}. Vertrauliche taktische Einschätzung.',
+  'app.documentTitle': '{firm} | Strategische Beratung',
+  'app.configErrorTitle': 'Diese Seite ist falsch konfiguriert',
+  'app.configErrorHint': 'Die Mandantenkonfiguration konnte nicht geladen werden. Beheben Sie die folgenden Probleme und laden Sie die Seite neu.',
+
+  'landing.availability': 'Weltweit rund um die Uhr erreichbar',
+  'landing.headline': 'Sofortige strategische',
+  'landing.headlineAccent': 'Krisenreaktion.',
+  'landing.intro': 'Sprechen Sie mit einem Agenten, der auf insgesamt {years} Jahre Erfahrung von {principal} in Journalismus und Öffentlichkeitsarbeit aufbaut.',
+  'landing.voiceTitle': 'Sichere Sprachleitung',
+  'landing.voiceBody': 'Sprechen Sie direkt mit dem Strategen für eine schnelle Einschätzung, ganz ohne Tippen.',
+  'landing.voiceCta': 'Anruf Starten',
+  'landing.messageTitle': 'Taktische Nachricht',
+  'landing.messageBody': 'Teilen Sie sensible Details in einer sicheren, reinen Textberatung.',
+  'landing.messageCta': 'Chat Öffnen',
+  'landing.drillTitle': 'Medientraining',
+  'landing.drillBody': 'Proben Sie ein feindseliges Presseinterview und erhalten Sie eine bewertete Nachbesprechung.',
+  'landing.drillCta': 'Szenario Wählen',
+  'landing.previous': 'Frühere Beratungen',
+  'landing.modeVoice': 'Sprache',
+  'landing.modeMessage': 'Nachricht',
+  'landing.modeDrill': 'Training',
+  'landing.entries': '{count} Einträge',
+  'landing.delete': 'Beratung löschen',
+
+  'language.label': 'Sprache',
+  'language.autoDetect': 'Sprache des Klienten Übernehmen',
+  'language.autoDetectHint': 'Wechselt in die Sprache der ersten Nachricht des Klienten.',
+  'language.voiceNote': 'Sprachanrufe übernehmen die neue Sprache beim nächsten Verbindungsaufbau.',
+
+  'status.connecting': 'Leitung wird gesichert',
+  'status.listening': 'Stratege Bereit',
+  'status.processing': 'Eingabe wird verarbeitet',
+  'status.awaiting': 'Warte auf Antwort',
+  'status.buffering': 'Audio wird geladen',
+  'status.speaking': 'Stratege Spricht',
+  'status.reconnecting': 'Verbindung wird wiederhergestellt',
+  'status.reconnectingAttempt': 'Neuer Verbindungsversuch ({attempt}/{of})',
+  'status.degradedSpeech': 'Sprachantworten Nicht Verfügbar',
+  'status.degradedText': 'Nur Text',
+  'status.offline': 'Offline',
+  'status.error': 'Nachricht Nicht Zugestellt',
+
+  'agent.welcome': 'Willkommen bei {firm}. Wie kann ich Ihnen heute helfen?',
+  'agent.streamLabel': 'Taktischer Kanal',
+  'agent.callerSpeaking': 'Sie Sprechen',
+  'agent.muted': 'Mikrofon Stumm',
+  'agent.inputMode': 'Spracheingabemodus',
+  'agent.modeAuto': 'Auto',
+  'agent.modeAutoHint': 'Ihr Beitrag endet, sobald Sie aufhören zu sprechen',
+  'agent.modePushToTalk': 'Drücken zum Sprechen',
+  'agent.modePushToTalkHint': 'Halten Sie die Taste oder die Leertaste gedrückt, während Sie sprechen',
+  'agent.showPanel': 'Fallakte & Dokumente Anzeigen',
+  'agent.hidePanel': 'Fallakte & Dokumente Ausblenden',
+  'agent.escalate': 'An {principalFirstName} Übergeben',
+  'agent.escalating': 'Wird vorbereitet...',
+  'agent.escalateHint': 'Diese Beratung an {principal} übergeben',
+  'agent.escalationReady': 'Übergabepaket für {principal} vorbereitet ({urgency}). Wählen Sie, wie Sie es senden möchten:',
+  'escalation.email': 'Übergabepaket per E-Mail an {email} senden',
+  'escalation.emailTitle': 'E-Mail an {name}',
+  'escalation.whatsapp': 'Paket per WhatsApp senden',
+  'escalation.whatsappTitle': 'WhatsApp an {name}',
+  'escalation.call': 'Gesprächstermin mit angehängtem Paket vorschlagen',
+  'escalation.callTitle': 'Gespräch planen',
+  'agent.muteMic': 'Mikrofon Stummschalten',
+  'agent.enableMic': 'Mikrofon Aktivieren',
+  'agent.tabCase': 'Fallakte',
+  'agent.tabDocuments': 'Dokumente',
+  'agent.tabPrivacy': 'Datenschutz',
+  'agent.tabLog': 'Protokoll',
+  'agent.offlineMessage': 'Sie sind offline. Ihre letzte Nachricht wird gesendet, sobald die Verbindung zurück ist.',
+  'agent.offlineRevision': 'Sie sind offline. Ihre Überarbeitungsanfrage wird gesendet, sobald die Verbindung zurück ist.',
+  'agent.offlineQueued': 'Sie sind offline. {count} Nachrichten werden der Reihe nach gesendet, sobald die Verbindung zurück ist.',
+  'agent.undeliveredMessage': 'Ihre letzte Nachricht hat den Strategen nicht erreicht.',
+  'agent.undeliveredRevision': 'Ihre Überarbeitungsanfrage hat den Strategen nicht erreicht.',
+  'agent.retry': 'Erneut Senden',
+  'agent.queued': 'In Warteschlange',
+  'agent.queuedHint': 'Wird automatisch gesendet, sobald die Verbindung zurück ist',
+  'agent.holdToTalk': 'Halten zum Sprechen',
+  'agent.holdToTalkHint': 'Zum Sprechen gedrückt halten (oder die Leertaste halten)',
+  'agent.releaseToSend': 'Loslassen zum Senden',
+  'agent.inputPlaceholder': 'Beschreiben Sie die Krisensituation...',
+  'agent.send': 'SENDEN',
+  'agent.speechFailed': 'Sprachantworten sind nicht verfügbar; die Antworten kommen weiter als Text.',
+  'agent.lineFailed': 'Sprachleitung nicht verfügbar; weiter per Text. Schalten Sie das Mikrofon wieder ein, um es erneut zu versuchen.',
+  'agent.micUnavailable': 'Mikrofon nicht verfügbar; weiter per Text.',
+  'agent.lineRetrying': 'Sprachleitung nicht verfügbar.',
+  'agent.chatRetrying': 'Stratege nicht erreichbar.',
+
+  'voice.settings': 'Spracheinstellungen',
+  'voice.settingsMuted': 'Spracheinstellungen (Stumm)',
+  'voice.strategistVoice': 'Stimme des Strategen',
+  'voice.preview': 'Anhören',
+  'voice.previewName': '{name} anhören',
+  'voice.previewLine': 'Hier spricht {name}, Ihr Krisenstratege.',
+  'voice.reconnectNote': 'Sprachanrufe übernehmen die neue Stimme beim nächsten Verbindungsaufbau.',
+  'voice.volume': 'Lautstärke',
+  'voice.speakingRate': 'Sprechtempo',
+  'voice.mute': 'Strategen Stummschalten',
+  'voice.autoSpeak': 'Chat-Antworten Vorlesen',
+
+  'attachments.attach': 'Dateien Anhängen',
+  'attachments.attachHint': 'Screenshots, PDFs oder Textdateien anhängen, etwa die E-Mail eines Journalisten',
+  'attachments.drop': 'Dateien hier ablegen, um sie an Ihre Nachricht anzuhängen',
+  'attachments.remove': '{name} entfernen',
+  'attachments.open': '{name} öffnen',
+  'attachments.errorType': '{name} wird nicht unterstützt. Hängen Sie Bilder, PDFs oder Textdateien an.',
+  'attachments.errorSize': '{name} ist größer als {limit} MB.',
+  'attachments.errorCount': 'Pro Nachricht sind bis zu {limit} Dateien möglich.',
+  'attachments.errorTotal': '{name} würde das Anhangslimit dieser Beratung von {limit} MB überschreiten.',
+  'attachments.errorRead': '{name} konnte nicht gelesen werden.',
+
+  'export.button': 'Briefing Exportieren',
+  'export.preparing': 'Briefing wird erstellt...',
+  'export.markdown': 'Markdown-Briefing',
+  'export.json': 'Strukturierte Daten',
+  'export.print': 'Drucken / PDF',
+  'export.printHint': 'Druckansicht',
+  'export.failed': 'Export fehlgeschlagen.',
+  'export.summaryUnavailable': 'Zusammenfassung zum Zeitpunkt des Exports nicht verfügbar.',
+
+  'case.title': 'Fallakte',
+  'case.updated': 'Aktualisiert {time}',
+  'case.verified': 'Bestätigt',
+  'case.verifiedHint': 'Von Ihnen bestätigt. Klicken, damit der Stratege dieses Feld wieder aktualisieren darf.',
+  'case.field.organization': 'Organisation',
+  'case.field.incidentType': 'Art des Vorfalls',
+  'case.field.severity': 'Schweregrad',
+  'case.field.stakeholders': 'Betroffene Anspruchsgruppen',
+  'case.field.knownFacts': 'Bekannte Fakten',
+  'case.field.mediaExposure': 'Medienpräsenz',
+  'case.field.deadlines': 'Fristen',
+  'case.placeholder.organization': 'Noch nicht ermittelt',
+  'case.placeholder.incidentType': 'z. B. Datenleck',
+  'case.placeholder.mediaExposure': 'Keine Berichterstattung bekannt',
+  'case.placeholder.deadlines': 'Beschreibung | wann, eine pro Zeile',
+  'case.onePerLine': 'Eine pro Zeile',
+  'case.unassessed': 'Nicht bewertet',
+  'case.severity.low': 'Gering',
+  'case.severity.moderate': 'Mittel',
+  'case.severity.high': 'Hoch',
+  'case.severity.critical': 'Kritisch',
+
+  'grounding.enabled': 'Im Web Suchen',
+  'grounding.enabledHint': 'Der Stratege kann die aktuelle Berichterstattung prüfen und nennt unter jeder Antwort seine Quellen. Solange die Suche aktiv ist, kann er die Fallakte nicht aktualisieren, keine Dokumente entwerfen und nicht eskalieren. Für vertrauliche Angelegenheiten ausgeschaltet lassen.',
+  'grounding.off': 'Die Suche ist aus: Der Stratege arbeitet nur mit diesem Gespräch und sieht keine aktuelle Berichterstattung.',
+  'grounding.sources': 'Quellen ({count})',
+
+  'redaction.enabled': 'Sensible Daten Maskieren',
+  'redaction.enabledHint': 'E-Mail-Adressen, Telefon- und Kontonummern sowie Namen auf der Beobachtungsliste werden durch Platzhalter ersetzt, bevor etwas das Modell erreicht.',
+  'redaction.off': 'Die Maskierung ist für diese Beratung aus; neue Nachrichten werden unverändert gesendet.',
+  'redaction.voiceNote': 'Audio auf der Sprachleitung wird so gesendet, wie es gesprochen wird, und kann nicht maskiert werden.',
+  'redaction.filesNote': 'Bilder und PDFs werden unverändert gesendet und können nicht maskiert werden; Textdateien werden wie Nachrichten maskiert.',
+  'redaction.watchlist': 'Beobachtungsliste',
+  'redaction.watchlistHint': 'Namen, die in jeder Beratung maskiert werden.',
+  'redaction.termPlaceholder': 'Zu maskierender Name',
+  'redaction.add': 'Hinzufügen',
+  'redaction.remove': '{term} entfernen',
+  'redaction.masked': 'In Dieser Beratung Maskiert',
+  'redaction.none': 'Noch nichts maskiert.',
+  'redaction.kind.email': 'E-Mail',
+  'redaction.kind.phone': 'Telefon',
+  'redaction.kind.account': 'Konto',
+  'redaction.kind.person': 'Person',
+  'redaction.kind.organization': 'Organisation',
+  'redaction.spoken.email': 'die E-Mail-Adresse',
+  'redaction.spoken.phone': 'die Telefonnummer',
+  'redaction.spoken.account': 'die Kontonummer',
+  'redaction.spoken.person': 'die betreffende Person',
+  'redaction.spoken.organization': 'die betreffende Organisation',
+
+  'documents.empty': 'Bitten Sie den Strategen um ein Holding Statement, eine Pressemitteilung, ein internes Memo oder ein Medien-Q&A. Entwürfe erscheinen hier, getrennt vom Gespräch.',
+  'documents.kind.holding_statement': 'Holding Statement',
+  'documents.kind.press_release': 'Pressemitteilung',
+  'documents.kind.staff_memo': 'Internes Memo',
+  'documents.kind.media_qa': 'Medien-Q&A',
+  'documents.versionOf': 'v{version} von {total}',
+  'documents.editedByYou': 'Von Ihnen bearbeitet',
+  'documents.refined': 'Überarbeitet',
+  'documents.drafted': 'Entworfen',
+  'documents.saveVersion': 'Version Speichern',
+  'documents.copy': 'Kopieren',
+  'documents.copied': 'Kopiert',
+  'documents.download': 'Herunterladen',
+  'documents.regenerate': 'Neu Erstellen',
+  'documents.refinePlaceholder': 'Überarbeiten: z. B. kürzer, wärmer, ohne Zeitleiste',
+  'documents.refine': 'Überarbeiten',
+  'drill.setupTitle': 'Wählen Sie ein Trainingsszenario',
+  'drill.setupHint': 'Ein Reporter befragt Sie als Sprecher der Organisation. Antworten Sie so, wie Sie es offiziell tun würden.',
+  'drill.startVoice': 'Per Sprache Starten',
+  'drill.startText': 'Per Text Starten',
+  'drill.cancel': 'Zurück',
+  'drill.product_recall.title': 'Produktrückruf',
+  'drill.product_recall.brief': 'Ein Kindersitz wird mit drei Verletzungen in Verbindung gebracht, und interne E-Mails deuten darauf hin, dass der Mangel seit Monaten bekannt war.',
+  'drill.product_recall.opening': 'Ihre eigenen Ingenieure haben dieses Gurtschloss vor acht Monaten gemeldet. Warum mussten sich erst drei Kinder verletzen, bevor Sie gehandelt haben?',
+  'drill.data_breach.title': 'Datenleck',
+  'drill.data_breach.brief': 'Die Daten von zwei Millionen Kunden stehen in einem kriminellen Forum, und nach elf Tagen sind die Kunden noch immer nicht informiert.',
+  'drill.data_breach.opening': 'Sie wissen seit elf Tagen von diesem Leck. Warum erfahren Ihre Kunden es von mir?',
+  'drill.workplace_accident.title': 'Arbeitsunfall',
+  'drill.workplace_accident.brief': 'Bei einer Explosion in einem Werk starb ein Arbeiter, vier wurden verletzt; der Standort wurde letztes Jahr wegen Sicherheitsmängeln beanstandet.',
+  'drill.workplace_accident.opening': 'Die Aufsichtsbehörde hat Sie letztes Jahr vor diesem Werk gewarnt. Haben Sie die Lüftung repariert, ja oder nein?',
+  'drill.tab': 'Training',
+  'drill.scenario': 'Szenario',
+  'drill.end': 'Beenden & Auswerten',
+  'drill.endHint': 'Interview beenden und Ihre Antworten bewerten',
+  'drill.debriefing': 'Bewertung läuft...',
+  'drill.debriefFailed': 'Die Auswertung konnte nicht erstellt werden. Versuchen Sie es gleich noch einmal.',
+  'drill.pending': 'Beantworten Sie die Fragen des Reporters und wählen Sie dann Beenden & Auswerten für Ihre Bewertung.',
+  'drill.overall': 'Gesamt',
+  'drill.score': '{score}/10',
+  'drill.category.discipline': 'Botschaftsdisziplin',
+  'drill.category.admissions': 'Eingeständnisse',
+  'drill.category.tone': 'Tonfall',
+  'audit.export': 'Als JSONL Exportieren',
+  'audit.events': '{count} Ereignisse',
+  'audit.empty': 'Noch nichts protokolliert.',
+  'audit.contentOn': 'Nachrichtentext ist in diesem Protokoll enthalten.',
+  'audit.contentOff': 'Maskierung ist aktiv: Nachrichtentext wird nicht protokolliert.',
+  'audit.firstToken': 'Erstes Token (Ø)',
+  'audit.tokens': 'Verbrauchte Tokens',
+  'audit.latest': 'Neueste zuerst',
+};
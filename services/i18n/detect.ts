@@ -0,0 +1,24 @@
+import { Language } from '../../types';
+
+// Common function words per language. Short texts rarely contain enough
+// distinctive vocabulary, but almost always contain a few of these.
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'are', 'was', 'we', 'our', 'to', 'of', 'have', 'has', 'what', 'how', 'with', 'this', 'that', 'they', 'you', 'it', 'for', 'been', 'about', 'my']),
+  es: new Set(['el', 'los', 'las', 'que', 'y', 'en', 'un', 'una', 'nuestra', 'nuestro', 'por', 'para', 'con', 'está', 'hemos', 'qué', 'cómo', 'se', 'del', 'pero', 'muy', 'también', 'mi']),
+  fr: new Set(['le', 'les', 'des', 'est', 'et', 'nous', 'notre', 'une', 'pour', 'avec', 'dans', 'pas', 'sur', 'qui', 'ce', 'vous', 'du', 'au', 'mais', 'très', 'aussi', 'mon', 'été']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'wir', 'unser', 'unsere', 'ein', 'eine', 'nicht', 'mit', 'für', 'auf', 'ich', 'sie', 'zu', 'den', 'dem', 'wurde', 'aber', 'sehr', 'auch']),
+};
+
+// Below this many matches the guess is noise (a name, a one-word reply).
+const MIN_MATCHES = 2;
+
+/** Guesses the language of a message from function-word counts; null when unsure. */
+export function detectLanguage(text: string): Language | null {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = (Object.keys(STOPWORDS) as Language[])
+    .map(language => ({ language, score: words.filter(w => STOPWORDS[language].has(w)).length }))
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  if (best.score < MIN_MATCHES || best.score === runnerUp.score) return null;
+  return best.language;
+}
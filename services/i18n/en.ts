@@ -0,0 +1,231 @@
+// Source catalogue: every other language must provide the same keys.
+// `{name}` placeholders are filled in by `translate`; `{firm}`, `{principal}`,
+// `{principalFirstName}` and `{years}` come from the tenant configuration.
+export const en = {
+  'app.brandSubtitle': 'Crisis Management',
+  'app.tagline': 'Global Strategic PR & Media Relations',
+  'app.footer': '© {year} {firm}. Confidential Tactical Assessment.',
+  'app.documentTitle': '{firm} | Strategic Counsel',
+  'app.configErrorTitle': 'This site is misconfigured',
+  'app.configErrorHint': 'The tenant configuration could not be loaded. Fix the problems below and reload.',
+
+  'landing.availability': 'Available 24/7 Worldwide',
+  'landing.headline': 'Immediate Strategic',
+  'landing.headlineAccent': 'Crisis Response.',
+  'landing.intro': "Connect with an agent trained on {principal}'s combined {years} years of journalism and public relations experience.",
+  'landing.voiceTitle': 'Secure Voice Line',
+  'landing.voiceBody': 'Speak directly with the strategist for rapid, hands-free assessment.',
+  'landing.voiceCta': 'Start Call',
+  'landing.messageTitle': 'Tactical Message',
+  'landing.messageBody': 'Provide sensitive details via secure text-only consultation.',
+  'landing.messageCta': 'Open Chat',
+  'landing.drillTitle': 'Media Drill',
+  'landing.drillBody': 'Rehearse a hostile press interview and get a scored debrief.',
+  'landing.drillCta': 'Choose Scenario',
+  'landing.previous': 'Previous Consultations',
+  'landing.modeVoice': 'Voice',
+  'landing.modeMessage': 'Message',
+  'landing.modeDrill': 'Drill',
+  'landing.entries': '{count} entries',
+  'landing.delete': 'Delete consultation',
+
+  'language.label': 'Language',
+  'language.autoDetect': "Match the Caller's Language",
+  'language.autoDetectHint': "Switches to the language of the caller's first message.",
+  'language.voiceNote': 'Voice calls pick up a new language the next time the line connects.',
+
+  'status.connecting': 'Securing Line',
+  'status.listening': 'Strategist Active',
+  'status.processing': 'Processing Input',
+  'status.awaiting': 'Awaiting Response',
+  'status.buffering': 'Buffering Audio',
+  'status.speaking': 'Strategist Speaking',
+  'status.reconnecting': 'Reconnecting',
+  'status.reconnectingAttempt': 'Reconnecting ({attempt}/{of})',
+  'status.degradedSpeech': 'Voice Replies Unavailable',
+  'status.degradedText': 'Text Only',
+  'status.offline': 'Offline',
+  'status.error': 'Message Not Delivered',
+
+  'agent.welcome': 'Welcome to {firm}. How can I help you today?',
+  'agent.streamLabel': 'Tactical Stream',
+  'agent.callerSpeaking': "You're Speaking",
+  'agent.muted': "You're Muted",
+  'agent.inputMode': 'Voice input mode',
+  'agent.modeAuto': 'Auto',
+  'agent.modeAutoHint': 'Your turn ends when you stop speaking',
+  'agent.modePushToTalk': 'Push to Talk',
+  'agent.modePushToTalkHint': 'Hold the button or spacebar while you speak',
+  'agent.showPanel': 'Show Case File & Documents',
+  'agent.hidePanel': 'Hide Case File & Documents',
+  'agent.escalate': 'Escalate to {principalFirstName}',
+  'agent.escalating': 'Preparing...',
+  'agent.escalateHint': 'Hand this consultation to {principal}',
+  'agent.escalationReady': "Escalation packet prepared for {principal} ({urgency}). Choose how you'd like to send it:",
+  'escalation.email': 'Email the briefing packet to {email}',
+  'escalation.emailTitle': 'Email {name}',
+  'escalation.whatsapp': 'Send the packet over WhatsApp',
+  'escalation.whatsappTitle': 'WhatsApp {name}',
+  'escalation.call': 'Propose a call time with the packet attached',
+  'escalation.callTitle': 'Schedule a call',
+  'agent.muteMic': 'Mute Microphone',
+  'agent.enableMic': 'Enable Microphone',
+  'agent.tabCase': 'Case File',
+  'agent.tabDocuments': 'Documents',
+  'agent.tabPrivacy': 'Privacy',
+  'agent.tabLog': 'Log',
+  'agent.offlineMessage': "You're offline. Your last message will be sent when the connection returns.",
+  'agent.offlineRevision': "You're offline. Your revision request will be sent when the connection returns.",
+  'agent.offlineQueued': "You're offline. {count} messages will be sent in order when the connection returns.",
+  'agent.undeliveredMessage': "Your last message didn't reach the strategist.",
+  'agent.undeliveredRevision': "Your revision request didn't reach the strategist.",
+  'agent.retry': 'Retry',
+  'agent.queued': 'Queued',
+  'agent.queuedHint': 'Sent automatically when the connection returns',
+  'agent.holdToTalk': 'Hold to Talk',
+  'agent.holdToTalkHint': 'Hold to talk (or hold the spacebar)',
+  'agent.releaseToSend': 'Release to Send',
+  'agent.inputPlaceholder': 'Describe the crisis situation...',
+  'agent.send': 'SEND',
+  'agent.speechFailed': 'Spoken replies are unavailable; responses continue as text.',
+  'agent.lineFailed': 'Voice line unavailable; continuing by text. Turn the microphone back on to retry.',
+  'agent.micUnavailable': 'Microphone unavailable; continuing by text.',
+  'agent.lineRetrying': 'Voice line unavailable.',
+  'agent.chatRetrying': 'Strategist unreachable.',
+
+  'voice.settings': 'Voice Settings',
+  'voice.settingsMuted': 'Voice Settings (Muted)',
+  'voice.strategistVoice': 'Strategist Voice',
+  'voice.preview': 'Preview',
+  'voice.previewName': 'Preview {name}',
+  'voice.previewLine': 'This is {name}, your crisis strategist.',
+  'voice.reconnectNote': 'Voice calls pick up a new voice the next time the line connects.',
+  'voice.volume': 'Volume',
+  'voice.speakingRate': 'Speaking Rate',
+  'voice.mute': 'Mute Strategist',
+  'voice.autoSpeak': 'Speak Chat Replies',
+
+  'attachments.attach': 'Attach Files',
+  'attachments.attachHint': "Attach screenshots, PDFs or text files such as a reporter's email",
+  'attachments.drop': 'Drop files to attach them to your message',
+  'attachments.remove': 'Remove {name}',
+  'attachments.open': 'Open {name}',
+  'attachments.errorType': "{name} isn't supported. Attach images, PDFs or text files.",
+  'attachments.errorSize': '{name} is larger than {limit} MB.',
+  'attachments.errorCount': 'Up to {limit} files can go with one message.',
+  'attachments.errorTotal': '{name} would take this consultation past its {limit} MB attachment allowance.',
+  'attachments.errorRead': '{name} could not be read.',
+
+  'export.button': 'Export Briefing',
+  'export.preparing': 'Preparing Briefing...',
+  'export.markdown': 'Markdown Briefing',
+  'export.json': 'Structured Data',
+  'export.print': 'Print / PDF',
+  'export.printHint': 'print view',
+  'export.failed': 'Export failed.',
+  'export.summaryUnavailable': 'Executive summary unavailable at time of export.',
+
+  'case.title': 'Case File',
+  'case.updated': 'Updated {time}',
+  'case.verified': 'Verified',
+  'case.verifiedHint': 'Verified by you. Click to let the strategist update this field again.',
+  'case.field.organization': 'Organization',
+  'case.field.incidentType': 'Incident Type',
+  'case.field.severity': 'Severity',
+  'case.field.stakeholders': 'Affected Stakeholders',
+  'case.field.knownFacts': 'Known Facts',
+  'case.field.mediaExposure': 'Media Exposure',
+  'case.field.deadlines': 'Deadlines',
+  'case.placeholder.organization': 'Not yet identified',
+  'case.placeholder.incidentType': 'e.g. data breach',
+  'case.placeholder.mediaExposure': 'No coverage reported',
+  'case.placeholder.deadlines': 'Description | when, one per line',
+  'case.onePerLine': 'One per line',
+  'case.unassessed': 'Unassessed',
+  'case.severity.low': 'Low',
+  'case.severity.moderate': 'Moderate',
+  'case.severity.high': 'High',
+  'case.severity.critical': 'Critical',
+
+  'grounding.enabled': 'Search the Web',
+  'grounding.enabledHint': 'The strategist can check current coverage and lists the sources it used under each answer. While search is on it cannot update the case file, draft documents or escalate. Leave it off for confidential matters.',
+  'grounding.off': 'Search is off: the strategist works only from this conversation and cannot see current coverage.',
+  'grounding.sources': 'Sources ({count})',
+
+  'redaction.enabled': 'Mask Sensitive Details',
+  'redaction.enabledHint': 'Emails, phone and account numbers and watchlisted names are replaced with placeholders before anything reaches the model.',
+  'redaction.off': 'Masking is off for this consultation; new messages are sent as typed.',
+  'redaction.voiceNote': 'Audio on the voice line is sent as spoken and cannot be masked.',
+  'redaction.filesNote': 'Images and PDFs are sent as attached and cannot be masked; text files are masked like messages.',
+  'redaction.watchlist': 'Watchlist',
+  'redaction.watchlistHint': 'Names masked in every consultation.',
+  'redaction.termPlaceholder': 'Name to mask',
+  'redaction.add': 'Add',
+  'redaction.remove': 'Remove {term}',
+  'redaction.masked': 'Masked This Consultation',
+  'redaction.none': 'Nothing masked yet.',
+  'redaction.kind.email': 'Email',
+  'redaction.kind.phone': 'Phone',
+  'redaction.kind.account': 'Account',
+  'redaction.kind.person': 'Person',
+  'redaction.kind.organization': 'Organization',
+  'redaction.spoken.email': 'the email address',
+  'redaction.spoken.phone': 'the phone number',
+  'redaction.spoken.account': 'the account number',
+  'redaction.spoken.person': 'the person concerned',
+  'redaction.spoken.organization': 'the organization concerned',
+
+  'documents.empty': 'Ask the strategist for a holding statement, press release, staff memo or media Q&A. Drafts appear here, separate from the conversation.',
+  'documents.kind.holding_statement': 'Holding Statement',
+  'documents.kind.press_release': 'Press Release',
+  'documents.kind.staff_memo': 'Internal Staff Memo',
+  'documents.kind.media_qa': 'Media Q&A',
+  'documents.versionOf': 'v{version} of {total}',
+  'documents.editedByYou': 'Edited by you',
+  'documents.refined': 'Refined',
+  'documents.drafted': 'Drafted',
+  'documents.saveVersion': 'Save Version',
+  'documents.copy': 'Copy',
+  'documents.copied': 'Copied',
+  'documents.download': 'Download',
+  'documents.regenerate': 'Regenerate',
+  'documents.refinePlaceholder': 'Refine: e.g. shorter, warmer, drop the timeline',
+  'documents.refine': 'Refine',
+  'drill.setupTitle': 'Choose a drill scenario',
+  'drill.setupHint': "A reporter will question you as the organization's spokesperson. Answer as you would on the record.",
+  'drill.startVoice': 'Start by Voice',
+  'drill.startText': 'Start by Text',
+  'drill.cancel': 'Back',
+  'drill.product_recall.title': 'Product Recall',
+  'drill.product_recall.brief': "A children's car seat is linked to three injuries, and internal emails suggest the defect was known months ago.",
+  'drill.product_recall.opening': 'Your own engineers flagged this buckle eight months ago. Why did it take three injured children for you to act?',
+  'drill.data_breach.title': 'Data Breach',
+  'drill.data_breach.brief': "Two million customers' records are on a criminal forum, and customers still haven't been told eleven days on.",
+  'drill.data_breach.opening': "You've known about this breach for eleven days. Why are your customers hearing about it from me?",
+  'drill.workplace_accident.title': 'Workplace Accident',
+  'drill.workplace_accident.brief': 'A plant explosion killed one worker and injured four; the site was cited for safety violations last year.',
+  'drill.workplace_accident.opening': 'Regulators warned you about this plant last year. Did you fix the ventilation, yes or no?',
+  'drill.tab': 'Drill',
+  'drill.scenario': 'Scenario',
+  'drill.end': 'End & Debrief',
+  'drill.endHint': 'End the interview and score your answers',
+  'drill.debriefing': 'Scoring...',
+  'drill.debriefFailed': 'The debrief could not be prepared. Try again in a moment.',
+  'drill.pending': "Answer the reporter's questions, then choose End & Debrief for your scores.",
+  'drill.overall': 'Overall',
+  'drill.score': '{score}/10',
+  'drill.category.discipline': 'Message Discipline',
+  'drill.category.admissions': 'Admissions',
+  'drill.category.tone': 'Tone',
+  'audit.export': 'Export JSONL',
+  'audit.events': '{count} events',
+  'audit.empty': 'Nothing logged yet.',
+  'audit.contentOn': 'Message text is included in this log.',
+  'audit.contentOff': 'Redaction is on: message text is left out of this log.',
+  'audit.firstToken': 'Avg. first token',
+  'audit.tokens': 'Tokens used',
+  'audit.latest': 'Newest first',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,227 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.brandSubtitle': 'Gestión de Crisis',
+  'app.tagline': 'Relaciones Públicas y con los Medios a Escala Global',
+  'app.footer': '© {year} {firm}. Evaluación táctica confidencial.',
+  'app.documentTitle': '{firm} | Asesoría Estratégica',
+  'app.configErrorTitle': 'Este sitio no está bien configurado',
+  'app.configErrorHint': 'No se pudo cargar la configuración del cliente. Corrija los problemas siguientes y recargue la página.',
+
+  'landing.availability': 'Disponible 24/7 en todo el mundo',
+  'landing.headline': 'Respuesta estratégica',
+  'landing.headlineAccent': 'inmediata ante crisis.',
+  'landing.intro': 'Conecte con un agente entrenado en los {years} años de experiencia combinada de {principal} en periodismo y relaciones públicas.',
+  'landing.voiceTitle': 'Línea de Voz Segura',
+  'landing.voiceBody': 'Hable directamente con el estratega para una evaluación rápida y sin manos.',
+  'landing.voiceCta': 'Iniciar Llamada',
+  'landing.messageTitle': 'Mensaje Táctico',
+  'landing.messageBody': 'Comparta detalles sensibles en una consulta segura solo por texto.',
+  'landing.messageCta': 'Abrir Chat',
+  'landing.drillTitle': 'Simulacro de Medios',
+  'landing.drillBody': 'Ensaye una entrevista de prensa hostil y reciba una evaluación puntuada.',
+  'landing.drillCta': 'Elegir Escenario',
+  'landing.previous': 'Consultas Anteriores',
+  'landing.modeVoice': 'Voz',
+  'landing.modeMessage': 'Mensaje',
+  'landing.modeDrill': 'Simulacro',
+  'landing.entries': '{count} entradas',
+  'landing.delete': 'Eliminar consulta',
+
+  'language.label': 'Idioma',
+  'language.autoDetect': 'Adaptarse al Idioma del Cliente',
+  'language.autoDetectHint': 'Cambia al idioma del primer mensaje del cliente.',
+  'language.voiceNote': 'Las llamadas de voz adoptan el nuevo idioma la próxima vez que se conecta la línea.',
+
+  'status.connecting': 'Asegurando Línea',
+  'status.listening': 'Estratega Activo',
+  'status.processing': 'Procesando',
+  'status.awaiting': 'Esperando Respuesta',
+  'status.buffering': 'Cargando Audio',
+  'status.speaking': 'Estratega Hablando',
+  'status.reconnecting': 'Reconectando',
+  'status.reconnectingAttempt': 'Reconectando ({attempt}/{of})',
+  'status.degradedSpeech': 'Respuestas de Voz No Disponibles',
+  'status.degradedText': 'Solo Texto',
+  'status.offline': 'Sin Conexión',
+  'status.error': 'Mensaje No Entregado',
+
+  'agent.welcome': 'Bienvenido a {firm}. ¿En qué puedo ayudarle hoy?',
+  'agent.streamLabel': 'Canal Táctico',
+  'agent.callerSpeaking': 'Está Hablando',
+  'agent.muted': 'Micrófono Silenciado',
+  'agent.inputMode': 'Modo de entrada de voz',
+  'agent.modeAuto': 'Auto',
+  'agent.modeAutoHint': 'Su turno termina cuando deja de hablar',
+  'agent.modePushToTalk': 'Pulsar para Hablar',
+  'agent.modePushToTalkHint': 'Mantenga pulsado el botón o la barra espaciadora mientras habla',
+  'agent.showPanel': 'Mostrar Expediente y Documentos',
+  'agent.hidePanel': 'Ocultar Expediente y Documentos',
+  'agent.escalate': 'Escalar a {principalFirstName}',
+  'agent.escalating': 'Preparando...',
+  'agent.escalateHint': 'Transferir esta consulta a {principal}',
+  'agent.escalationReady': 'Expediente de escalado preparado para {principal} ({urgency}). Elija cómo desea enviarlo:',
+  'escalation.email': 'Enviar el expediente por correo a {email}',
+  'escalation.emailTitle': 'Escribir a {name}',
+  'escalation.whatsapp': 'Enviar el expediente por WhatsApp',
+  'escalation.whatsappTitle': 'WhatsApp a {name}',
+  'escalation.call': 'Proponer una hora de llamada con el expediente adjunto',
+  'escalation.callTitle': 'Programar una llamada',
+  'agent.muteMic': 'Silenciar Micrófono',
+  'agent.enableMic': 'Activar Micrófono',
+  'agent.tabCase': 'Expediente',
+  'agent.tabDocuments': 'Documentos',
+  'agent.tabPrivacy': 'Privacidad',
+  'agent.tabLog': 'Registro',
+  'agent.offlineMessage': 'Está sin conexión. Su último mensaje se enviará cuando vuelva la conexión.',
+  'agent.offlineRevision': 'Está sin conexión. Su solicitud de revisión se enviará cuando vuelva la conexión.',
+  'agent.offlineQueued': 'Está sin conexión. Se enviarán {count} mensajes en orden cuando vuelva la conexión.',
+  'agent.undeliveredMessage': 'Su último mensaje no llegó al estratega.',
+  'agent.undeliveredRevision': 'Su solicitud de revisión no llegó al estratega.',
+  'agent.retry': 'Reintentar',
+  'agent.queued': 'En cola',
+  'agent.queuedHint': 'Se enviará automáticamente cuando vuelva la conexión',
+  'agent.holdToTalk': 'Mantener para Hablar',
+  'agent.holdToTalkHint': 'Mantenga pulsado para hablar (o mantenga la barra espaciadora)',
+  'agent.releaseToSend': 'Soltar para Enviar',
+  'agent.inputPlaceholder': 'Describa la situación de crisis...',
+  'agent.send': 'ENVIAR',
+  'agent.speechFailed': 'Las respuestas habladas no están disponibles; continúan por texto.',
+  'agent.lineFailed': 'Línea de voz no disponible; continuamos por texto. Vuelva a activar el micrófono para reintentar.',
+  'agent.micUnavailable': 'Micrófono no disponible; continuamos por texto.',
+  'agent.lineRetrying': 'Línea de voz no disponible.',
+  'agent.chatRetrying': 'No se puede contactar con el estratega.',
+
+  'voice.settings': 'Ajustes de Voz',
+  'voice.settingsMuted': 'Ajustes de Voz (Silenciado)',
+  'voice.strategistVoice': 'Voz del Estratega',
+  'voice.preview': 'Escuchar',
+  'voice.previewName': 'Escuchar {name}',
+  'voice.previewLine': 'Soy {name}, su estratega de crisis.',
+  'voice.reconnectNote': 'Las llamadas de voz adoptan la nueva voz la próxima vez que se conecta la línea.',
+  'voice.volume': 'Volumen',
+  'voice.speakingRate': 'Velocidad',
+  'voice.mute': 'Silenciar Estratega',
+  'voice.autoSpeak': 'Leer Respuestas en Voz Alta',
+
+  'attachments.attach': 'Adjuntar Archivos',
+  'attachments.attachHint': 'Adjunte capturas, PDF o archivos de texto, como el correo de un periodista',
+  'attachments.drop': 'Suelte los archivos para adjuntarlos a su mensaje',
+  'attachments.remove': 'Quitar {name}',
+  'attachments.open': 'Abrir {name}',
+  'attachments.errorType': '{name} no es compatible. Adjunte imágenes, PDF o archivos de texto.',
+  'attachments.errorSize': '{name} supera los {limit} MB.',
+  'attachments.errorCount': 'Se pueden enviar hasta {limit} archivos por mensaje.',
+  'attachments.errorTotal': '{name} superaría el límite de {limit} MB de adjuntos de esta consulta.',
+  'attachments.errorRead': 'No se pudo leer {name}.',
+
+  'export.button': 'Exportar Informe',
+  'export.preparing': 'Preparando Informe...',
+  'export.markdown': 'Informe en Markdown',
+  'export.json': 'Datos Estructurados',
+  'export.print': 'Imprimir / PDF',
+  'export.printHint': 'vista de impresión',
+  'export.failed': 'La exportación ha fallado.',
+  'export.summaryUnavailable': 'Resumen ejecutivo no disponible en el momento de la exportación.',
+
+  'case.title': 'Expediente',
+  'case.updated': 'Actualizado {time}',
+  'case.verified': 'Verificado',
+  'case.verifiedHint': 'Verificado por usted. Haga clic para que el estratega pueda volver a actualizar este campo.',
+  'case.field.organization': 'Organización',
+  'case.field.incidentType': 'Tipo de Incidente',
+  'case.field.severity': 'Gravedad',
+  'case.field.stakeholders': 'Partes Afectadas',
+  'case.field.knownFacts': 'Hechos Conocidos',
+  'case.field.mediaExposure': 'Exposición Mediática',
+  'case.field.deadlines': 'Plazos',
+  'case.placeholder.organization': 'Aún sin identificar',
+  'case.placeholder.incidentType': 'p. ej. filtración de datos',
+  'case.placeholder.mediaExposure': 'Sin cobertura conocida',
+  'case.placeholder.deadlines': 'Descripción | cuándo, uno por línea',
+  'case.onePerLine': 'Uno por línea',
+  'case.unassessed': 'Sin evaluar',
+  'case.severity.low': 'Baja',
+  'case.severity.moderate': 'Moderada',
+  'case.severity.high': 'Alta',
+  'case.severity.critical': 'Crítica',
+
+  'grounding.enabled': 'Buscar en la Web',
+  'grounding.enabledHint': 'El estratega puede consultar la cobertura actual y muestra las fuentes usadas bajo cada respuesta. Mientras la búsqueda esté activa no puede actualizar el expediente, redactar documentos ni escalar. Manténgala desactivada en asuntos confidenciales.',
+  'grounding.off': 'La búsqueda está desactivada: el estratega solo trabaja con esta conversación y no puede ver la cobertura actual.',
+  'grounding.sources': 'Fuentes ({count})',
+
+  'redaction.enabled': 'Ocultar Datos Sensibles',
+  'redaction.enabledHint': 'Los correos, teléfonos, números de cuenta y nombres de la lista de vigilancia se sustituyen por marcadores antes de llegar al modelo.',
+  'redaction.off': 'El enmascarado está desactivado en esta consulta; los mensajes nuevos se envían tal como se escriben.',
+  'redaction.voiceNote': 'El audio de la línea de voz se envía tal como se habla y no se puede enmascarar.',
+  'redaction.filesNote': 'Las imágenes y los PDF se envían tal cual y no se pueden enmascarar; los archivos de texto se enmascaran como los mensajes.',
+  'redaction.watchlist': 'Lista de Vigilancia',
+  'redaction.watchlistHint': 'Nombres ocultos en todas las consultas.',
+  'redaction.termPlaceholder': 'Nombre a ocultar',
+  'redaction.add': 'Añadir',
+  'redaction.remove': 'Quitar {term}',
+  'redaction.masked': 'Ocultado en Esta Consulta',
+  'redaction.none': 'Todavía no se ha ocultado nada.',
+  'redaction.kind.email': 'Correo',
+  'redaction.kind.phone': 'Teléfono',
+  'redaction.kind.account': 'Cuenta',
+  'redaction.kind.person': 'Persona',
+  'redaction.kind.organization': 'Organización',
+  'redaction.spoken.email': 'la dirección de correo',
+  'redaction.spoken.phone': 'el número de teléfono',
+  'redaction.spoken.account': 'el número de cuenta',
+  'redaction.spoken.person': 'la persona en cuestión',
+  'redaction.spoken.organization': 'la organización en cuestión',
+
+  'documents.empty': 'Pida al estratega una declaración provisional, un comunicado de prensa, un memorando interno o un Q&A para medios. Los borradores aparecen aquí, separados de la conversación.',
+  'documents.kind.holding_statement': 'Declaración Provisional',
+  'documents.kind.press_release': 'Comunicado de Prensa',
+  'documents.kind.staff_memo': 'Memorando Interno',
+  'documents.kind.media_qa': 'Q&A para Medios',
+  'documents.versionOf': 'v{version} de {total}',
+  'documents.editedByYou': 'Editado por usted',
+  'documents.refined': 'Revisado',
+  'documents.drafted': 'Redactado',
+  'documents.saveVersion': 'Guardar Versión',
+  'documents.copy': 'Copiar',
+  'documents.copied': 'Copiado',
+  'documents.download': 'Descargar',
+  'documents.regenerate': 'Regenerar',
+  'documents.refinePlaceholder': 'Revisar: p. ej. más breve, más cercano, sin la cronología',
+  'documents.refine': 'Revisar',
+  'drill.setupTitle': 'Elija un escenario de simulacro',
+  'drill.setupHint': 'Un periodista le interrogará como portavoz de la organización. Responda como lo haría ante la prensa.',
+  'drill.startVoice': 'Empezar por Voz',
+  'drill.startText': 'Empezar por Texto',
+  'drill.cancel': 'Volver',
+  'drill.product_recall.title': 'Retirada de Producto',
+  'drill.product_recall.brief': 'Una silla infantil para coche se vincula a tres lesiones, y correos internos sugieren que el defecto se conocía desde hace meses.',
+  'drill.product_recall.opening': 'Sus propios ingenieros alertaron sobre este cierre hace ocho meses. ¿Por qué hicieron falta tres niños heridos para que actuaran?',
+  'drill.data_breach.title': 'Filtración de Datos',
+  'drill.data_breach.brief': 'Los datos de dos millones de clientes están en un foro delictivo y, once días después, los clientes aún no han sido informados.',
+  'drill.data_breach.opening': 'Saben de esta filtración desde hace once días. ¿Por qué sus clientes se enteran por mí?',
+  'drill.workplace_accident.title': 'Accidente Laboral',
+  'drill.workplace_accident.brief': 'Una explosión en una planta mató a un trabajador e hirió a cuatro; el lugar fue sancionado por infracciones de seguridad el año pasado.',
+  'drill.workplace_accident.opening': 'Los reguladores les advirtieron sobre esta planta el año pasado. ¿Arreglaron la ventilación, sí o no?',
+  'drill.tab': 'Simulacro',
+  'drill.scenario': 'Escenario',
+  'drill.end': 'Terminar y Evaluar',
+  'drill.endHint': 'Terminar la entrevista y puntuar sus respuestas',
+  'drill.debriefing': 'Puntuando...',
+  'drill.debriefFailed': 'No se pudo preparar la evaluación. Inténtelo de nuevo en un momento.',
+  'drill.pending': 'Responda a las preguntas del periodista y luego elija Terminar y Evaluar para ver sus puntuaciones.',
+  'drill.overall': 'Global',
+  'drill.score': '{score}/10',
+  'drill.category.discipline': 'Disciplina del Mensaje',
+  'drill.category.admissions': 'Admisiones',
+  'drill.category.tone': 'Tono',
+  'audit.export': 'Exportar JSONL',
+  'audit.events': '{count} eventos',
+  'audit.empty': 'Aún no hay nada registrado.',
+  'audit.contentOn': 'El texto de los mensajes se incluye en este registro.',
+  'audit.contentOff': 'El enmascaramiento está activo: el texto de los mensajes no se incluye en este registro.',
+  'audit.firstToken': 'Primer token (media)',
+  'audit.tokens': 'Tokens usados',
+  'audit.latest': 'Más recientes primero',
+};
@@ -0,0 +1,227 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'app.brandSubtitle': 'Gestion de Crise',
+  'app.tagline': 'Relations Publiques et Médias à l’International',
+  'app.footer': '© {year} {firm}. Évaluation tactique confidentielle.',
+  'app.documentTitle': '{firm} | Conseil Stratégique',
+  'app.configErrorTitle': 'Ce site est mal configuré',
+  'app.configErrorHint': 'La configuration du client n’a pas pu être chargée. Corrigez les problèmes ci-dessous puis rechargez la page.',
+
+  'landing.availability': 'Disponible 24h/24, 7j/7, partout dans le monde',
+  'landing.headline': 'Réponse stratégique',
+  'landing.headlineAccent': 'immédiate aux crises.',
+  'landing.intro': 'Échangez avec un agent formé sur les {years} ans d’expérience cumulée de {principal} en journalisme et en relations publiques.',
+  'landing.voiceTitle': 'Ligne Vocale Sécurisée',
+  'landing.voiceBody': 'Parlez directement au stratège pour une évaluation rapide, mains libres.',
+  'landing.voiceCta': 'Appeler',
+  'landing.messageTitle': 'Message Tactique',
+  'landing.messageBody': 'Transmettez les détails sensibles lors d’une consultation sécurisée par écrit.',
+  'landing.messageCta': 'Ouvrir le Chat',
+  'landing.drillTitle': 'Exercice Médias',
+  'landing.drillBody': 'Répétez une interview de presse hostile et recevez un bilan noté.',
+  'landing.drillCta': 'Choisir un Scénario',
+  'landing.previous': 'Consultations Précédentes',
+  'landing.modeVoice': 'Voix',
+  'landing.modeMessage': 'Message',
+  'landing.modeDrill': 'Exercice',
+  'landing.entries': '{count} entrées',
+  'landing.delete': 'Supprimer la consultation',
+
+  'language.label': 'Langue',
+  'language.autoDetect': 'Suivre la Langue du Client',
+  'language.autoDetectHint': 'Passe à la langue du premier message du client.',
+  'language.voiceNote': 'Les appels vocaux adoptent la nouvelle langue à la prochaine connexion de la ligne.',
+
+  'status.connecting': 'Sécurisation de la Ligne',
+  'status.listening': 'Stratège Actif',
+  'status.processing': 'Traitement en Cours',
+  'status.awaiting': 'En Attente de Réponse',
+  'status.buffering': 'Chargement Audio',
+  'status.speaking': 'Le Stratège Parle',
+  'status.reconnecting': 'Reconnexion',
+  'status.reconnectingAttempt': 'Reconnexion ({attempt}/{of})',
+  'status.degradedSpeech': 'Réponses Vocales Indisponibles',
+  'status.degradedText': 'Texte Uniquement',
+  'status.offline': 'Hors Ligne',
+  'status.error': 'Message Non Remis',
+
+  'agent.welcome': 'Bienvenue chez {firm}. Comment puis-je vous aider aujourd’hui ?',
+  'agent.streamLabel': 'Canal Tactique',
+  'agent.callerSpeaking': 'Vous Parlez',
+  'agent.muted': 'Micro Coupé',
+  'agent.inputMode': 'Mode de saisie vocale',
+  'agent.modeAuto': 'Auto',
+  'agent.modeAutoHint': 'Votre tour se termine quand vous cessez de parler',
+  'agent.modePushToTalk': 'Appuyer pour Parler',
+  'agent.modePushToTalkHint': 'Maintenez le bouton ou la barre d’espace pendant que vous parlez',
+  'agent.showPanel': 'Afficher le Dossier et les Documents',
+  'agent.hidePanel': 'Masquer le Dossier et les Documents',
+  'agent.escalate': 'Transmettre à {principalFirstName}',
+  'agent.escalating': 'Préparation...',
+  'agent.escalateHint': 'Confier cette consultation à {principal}',
+  'agent.escalationReady': 'Dossier de transmission préparé pour {principal} ({urgency}). Choisissez comment l’envoyer :',
+  'escalation.email': 'Envoyer le dossier par e-mail à {email}',
+  'escalation.emailTitle': 'Écrire à {name}',
+  'escalation.whatsapp': 'Envoyer le dossier par WhatsApp',
+  'escalation.whatsappTitle': 'WhatsApp à {name}',
+  'escalation.call': 'Proposer un créneau d’appel avec le dossier joint',
+  'escalation.callTitle': 'Planifier un appel',
+  'agent.muteMic': 'Couper le Micro',
+  'agent.enableMic': 'Activer le Micro',
+  'agent.tabCase': 'Dossier',
+  'agent.tabDocuments': 'Documents',
+  'agent.tabPrivacy': 'Confidentialité',
+  'agent.tabLog': 'Journal',
+  'agent.offlineMessage': 'Vous êtes hors ligne. Votre dernier message sera envoyé au retour de la connexion.',
+  'agent.offlineRevision': 'Vous êtes hors ligne. Votre demande de révision sera envoyée au retour de la connexion.',
+  'agent.offlineQueued': 'Vous êtes hors ligne. {count} messages seront envoyés dans l’ordre au retour de la connexion.',
+  'agent.undeliveredMessage': 'Votre dernier message n’est pas parvenu au stratège.',
+  'agent.undeliveredRevision': 'Votre demande de révision n’est pas parvenue au stratège.',
+  'agent.retry': 'Réessayer',
+  'agent.queued': 'En attente',
+  'agent.queuedHint': 'Envoyé automatiquement au retour de la connexion',
+  'agent.holdToTalk': 'Maintenir pour Parler',
+  'agent.holdToTalkHint': 'Maintenez pour parler (ou maintenez la barre d’espace)',
+  'agent.releaseToSend': 'Relâcher pour Envoyer',
+  'agent.inputPlaceholder': 'Décrivez la situation de crise...',
+  'agent.send': 'ENVOYER',
+  'agent.speechFailed': 'Les réponses vocales sont indisponibles ; elles continuent par écrit.',
+  'agent.lineFailed': 'Ligne vocale indisponible ; la consultation continue par écrit. Réactivez le micro pour réessayer.',
+  'agent.micUnavailable': 'Micro indisponible ; la consultation continue par écrit.',
+  'agent.lineRetrying': 'Ligne vocale indisponible.',
+  'agent.chatRetrying': 'Stratège injoignable.',
+
+  'voice.settings': 'Réglages Vocaux',
+  'voice.settingsMuted': 'Réglages Vocaux (Muet)',
+  'voice.strategistVoice': 'Voix du Stratège',
+  'voice.preview': 'Écouter',
+  'voice.previewName': 'Écouter {name}',
+  'voice.previewLine': 'Je suis {name}, votre stratège de crise.',
+  'voice.reconnectNote': 'Les appels vocaux adoptent la nouvelle voix à la prochaine connexion de la ligne.',
+  'voice.volume': 'Volume',
+  'voice.speakingRate': 'Débit',
+  'voice.mute': 'Couper le Stratège',
+  'voice.autoSpeak': 'Lire les Réponses à Voix Haute',
+
+  'attachments.attach': 'Joindre des Fichiers',
+  'attachments.attachHint': 'Joignez des captures, des PDF ou des fichiers texte, comme l’e-mail d’un journaliste',
+  'attachments.drop': 'Déposez les fichiers pour les joindre à votre message',
+  'attachments.remove': 'Retirer {name}',
+  'attachments.open': 'Ouvrir {name}',
+  'attachments.errorType': '{name} n’est pas pris en charge. Joignez des images, des PDF ou des fichiers texte.',
+  'attachments.errorSize': '{name} dépasse {limit} Mo.',
+  'attachments.errorCount': '{limit} fichiers au maximum par message.',
+  'attachments.errorTotal': '{name} dépasserait la limite de {limit} Mo de pièces jointes de cette consultation.',
+  'attachments.errorRead': 'Impossible de lire {name}.',
+
+  'export.button': 'Exporter le Briefing',
+  'export.preparing': 'Préparation du Briefing...',
+  'export.markdown': 'Briefing Markdown',
+  'export.json': 'Données Structurées',
+  'export.print': 'Imprimer / PDF',
+  'export.printHint': 'aperçu',
+  'export.failed': 'L’export a échoué.',
+  'export.summaryUnavailable': 'Synthèse indisponible au moment de l’export.',
+
+  'case.title': 'Dossier',
+  'case.updated': 'Mis à jour à {time}',
+  'case.verified': 'Vérifié',
+  'case.verifiedHint': 'Vérifié par vous. Cliquez pour permettre au stratège de modifier à nouveau ce champ.',
+  'case.field.organization': 'Organisation',
+  'case.field.incidentType': 'Type d’Incident',
+  'case.field.severity': 'Gravité',
+  'case.field.stakeholders': 'Parties Concernées',
+  'case.field.knownFacts': 'Faits Établis',
+  'case.field.mediaExposure': 'Exposition Médiatique',
+  'case.field.deadlines': 'Échéances',
+  'case.placeholder.organization': 'Pas encore identifiée',
+  'case.placeholder.incidentType': 'ex. fuite de données',
+  'case.placeholder.mediaExposure': 'Aucune couverture signalée',
+  'case.placeholder.deadlines': 'Description | quand, une par ligne',
+  'case.onePerLine': 'Une par ligne',
+  'case.unassessed': 'Non évaluée',
+  'case.severity.low': 'Faible',
+  'case.severity.moderate': 'Modérée',
+  'case.severity.high': 'Élevée',
+  'case.severity.critical': 'Critique',
+
+  'grounding.enabled': 'Rechercher sur le Web',
+  'grounding.enabledHint': 'Le stratège peut consulter la couverture actuelle et liste ses sources sous chaque réponse. Tant que la recherche est active, il ne peut ni mettre à jour le dossier, ni rédiger de documents, ni transmettre le dossier. Laissez-la désactivée pour les affaires confidentielles.',
+  'grounding.off': 'La recherche est désactivée : le stratège ne s’appuie que sur cette conversation et ne voit pas la couverture actuelle.',
+  'grounding.sources': 'Sources ({count})',
+
+  'redaction.enabled': 'Masquer les Données Sensibles',
+  'redaction.enabledHint': 'Les e-mails, numéros de téléphone et de compte et les noms de la liste de surveillance sont remplacés par des marqueurs avant d’atteindre le modèle.',
+  'redaction.off': 'Le masquage est désactivé pour cette consultation ; les nouveaux messages partent tels quels.',
+  'redaction.voiceNote': 'L’audio de la ligne vocale est transmis tel quel et ne peut pas être masqué.',
+  'redaction.filesNote': 'Les images et les PDF sont transmis tels quels et ne peuvent pas être masqués ; les fichiers texte le sont comme les messages.',
+  'redaction.watchlist': 'Liste de Surveillance',
+  'redaction.watchlistHint': 'Noms masqués dans toutes les consultations.',
+  'redaction.termPlaceholder': 'Nom à masquer',
+  'redaction.add': 'Ajouter',
+  'redaction.remove': 'Retirer {term}',
+  'redaction.masked': 'Masqué dans Cette Consultation',
+  'redaction.none': 'Rien n’a encore été masqué.',
+  'redaction.kind.email': 'E-mail',
+  'redaction.kind.phone': 'Téléphone',
+  'redaction.kind.account': 'Compte',
+  'redaction.kind.person': 'Personne',
+  'redaction.kind.organization': 'Organisation',
+  'redaction.spoken.email': 'l’adresse e-mail',
+  'redaction.spoken.phone': 'le numéro de téléphone',
+  'redaction.spoken.account': 'le numéro de compte',
+  'redaction.spoken.person': 'la personne concernée',
+  'redaction.spoken.organization': 'l’organisation concernée',
+
+  'documents.empty': 'Demandez au stratège une déclaration d’attente, un communiqué de presse, une note interne ou un Q&R médias. Les brouillons apparaissent ici, à part de la conversation.',
+  'documents.kind.holding_statement': 'Déclaration d’Attente',
+  'documents.kind.press_release': 'Communiqué de Presse',
+  'documents.kind.staff_memo': 'Note Interne',
+  'documents.kind.media_qa': 'Q&R Médias',
+  'documents.versionOf': 'v{version} sur {total}',
+  'documents.editedByYou': 'Modifié par vous',
+  'documents.refined': 'Révisé',
+  'documents.drafted': 'Rédigé',
+  'documents.saveVersion': 'Enregistrer la Version',
+  'documents.copy': 'Copier',
+  'documents.copied': 'Copié',
+  'documents.download': 'Télécharger',
+  'documents.regenerate': 'Régénérer',
+  'documents.refinePlaceholder': 'Réviser : ex. plus court, plus chaleureux, sans la chronologie',
+  'documents.refine': 'Réviser',
+  'drill.setupTitle': 'Choisissez un scénario d’exercice',
+  'drill.setupHint': 'Un journaliste vous interrogera en tant que porte-parole de l’organisation. Répondez comme vous le feriez officiellement.',
+  'drill.startVoice': 'Commencer à l’Oral',
+  'drill.startText': 'Commencer par Écrit',
+  'drill.cancel': 'Retour',
+  'drill.product_recall.title': 'Rappel de Produit',
+  'drill.product_recall.brief': 'Un siège auto pour enfants est lié à trois blessures, et des e-mails internes suggèrent que le défaut était connu depuis des mois.',
+  'drill.product_recall.opening': 'Vos propres ingénieurs ont signalé cette boucle il y a huit mois. Pourquoi a-t-il fallu trois enfants blessés pour que vous agissiez ?',
+  'drill.data_breach.title': 'Fuite de Données',
+  'drill.data_breach.brief': 'Les données de deux millions de clients sont sur un forum criminel, et onze jours plus tard les clients n’ont toujours pas été prévenus.',
+  'drill.data_breach.opening': 'Vous êtes au courant de cette fuite depuis onze jours. Pourquoi vos clients l’apprennent-ils par moi ?',
+  'drill.workplace_accident.title': 'Accident du Travail',
+  'drill.workplace_accident.brief': 'Une explosion dans une usine a tué un ouvrier et en a blessé quatre ; le site avait été sanctionné l’an dernier pour des manquements à la sécurité.',
+  'drill.workplace_accident.opening': 'Les autorités vous ont mis en garde contre cette usine l’an dernier. Avez-vous réparé la ventilation, oui ou non ?',
+  'drill.tab': 'Exercice',
+  'drill.scenario': 'Scénario',
+  'drill.end': 'Terminer et Évaluer',
+  'drill.endHint': 'Terminer l’interview et noter vos réponses',
+  'drill.debriefing': 'Notation...',
+  'drill.debriefFailed': 'Le bilan n’a pas pu être préparé. Réessayez dans un instant.',
+  'drill.pending': 'Répondez aux questions du journaliste, puis choisissez Terminer et Évaluer pour obtenir vos notes.',
+  'drill.overall': 'Global',
+  'drill.score': '{score}/10',
+  'drill.category.discipline': 'Discipline du Message',
+  'drill.category.admissions': 'Aveux',
+  'drill.category.tone': 'Ton',
+  'audit.export': 'Exporter en JSONL',
+  'audit.events': '{count} événements',
+  'audit.empty': 'Rien n’a encore été journalisé.',
+  'audit.contentOn': 'Le texte des messages figure dans ce journal.',
+  'audit.contentOff': 'Le masquage est actif : le texte des messages est exclu de ce journal.',
+  'audit.firstToken': 'Premier jeton (moy.)',
+  'audit.tokens': 'Jetons utilisés',
+  'audit.latest': 'Plus récents d’abord',
+};
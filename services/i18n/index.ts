@@ -0,0 +1,85 @@
+import { Language } from '../../types';
+import { en, MessageKey, Messages } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { de } from './de';
+
+export type { MessageKey, Messages } from './en';
+export { detectLanguage } from './detect';
+
+export interface LanguageInfo {
+  code: Language;
+  /** Name in the language itself, for the picker. */
+  nativeName: string;
+  /** English name, used when instructing the model. */
+  englishName: string;
+  /** BCP-47 tag for dates and speech synthesis. */
+  locale: string;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { code: 'en', nativeName: 'English', englishName: 'English', locale: 'en-US' },
+  es: { code: 'es', nativeName: 'Español', englishName: 'Spanish', locale: 'es-ES' },
+  fr: { code: 'fr', nativeName: 'Français', englishName: 'French', locale: 'fr-FR' },
+  de: { code: 'de', nativeName: 'Deutsch', englishName: 'German', locale: 'de-DE' },
+};
+
+const CATALOGUES: Record<Language, Messages> = { en, es, fr, de };
+
+export type TranslateVars = Record<string, string | number>;
+
+/** Fills `{name}` placeholders; unknown names are left as they are. */
+export function interpolate(template: string, vars: TranslateVars): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+}
+
+export function translate(language: Language, key: MessageKey, vars?: TranslateVars): string {
+  const template = CATALOGUES[language][key] ?? en[key];
+  return vars ? interpolate(template, vars) : template;
+}
+
+export interface LanguageSettings {
+  language: Language;
+  /** Switch to the caller's language after their first message. */
+  autoDetect: boolean;
+}
+
+const STORAGE_KEY = 'rk-language';
+
+const isLanguage = (value: unknown): value is Language => typeof value === 'string' && Object.hasOwn(LANGUAGES, value);
+
+/** The browser's preferred language if we support it, otherwise English. */
+export function browserLanguage(): Language {
+  const preferred = (navigator.languages ?? [navigator.language]).map(l => l.slice(0, 2).toLowerCase());
+  return preferred.find(isLanguage) ?? 'en';
+}
+
+export function loadLanguageSettings(): LanguageSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {
+      language: isLanguage(saved.language) ? saved.language : browserLanguage(),
+      autoDetect: typeof saved.autoDetect === 'boolean' ? saved.autoDetect : true,
+    };
+  } catch (e) {
+    return { language: browserLanguage(), autoDetect: true };
+  }
+}
+
+export function saveLanguageSettings(settings: LanguageSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Language settings could not be saved locally.", e);
+  }
+}
+
+/**
+ * Appended to the strategist's system instruction. The persona itself stays in
+ * English; the model is told which language to answer in.
+ */
+export function languageInstruction(language: Language): string {
+  const { englishName, nativeName } = LANGUAGES[language];
+  if (language === 'en') return '\nLanguage: Respond in English unless the client writes in another language, then follow theirs.';
+  return `\nLanguage: Respond in ${englishName} (${nativeName}) unless the client writes in another language, then follow theirs. Drafted documents use the same language.`;
+}
@@ -0,0 +1,120 @@
+import { GenerateContentResponse, GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { mintLiveToken, streamChat, synthesizeSpeech } from '../strategistApi';
+import { paceDirection } from '../voiceSettings';
+import { TenantModels } from '../tenantConfig';
+import {
+  ChatChunk,
+  ChatRequest,
+  Citation,
+  LiveEvent,
+  LiveSession,
+  LiveSessionOptions,
+  ModelProvider,
+  SpeechRequest,
+  TokenUsage,
+  ToolCall,
+} from './types';
+
+function toToolCalls(calls: { id?: string; name?: string; args?: Record<string, unknown> }[] | undefined): ToolCall[] | undefined {
+  const mapped = calls?.filter(c => c.name).map(c => ({ id: c.id, name: c.name!, args: c.args ?? {} }));
+  return mapped?.length ? mapped : undefined;
+}
+
+function toCitations(chunk: GenerateContentResponse): Citation[] | undefined {
+  const cited = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks
+    ?.map(c => c.web)
+    .filter(web => web?.uri)
+    .map(web => ({ url: web!.uri!, title: web!.title }));
+  return cited?.length ? cited : undefined;
+}
+
+// Chat responses count output as `candidatesTokenCount`, live messages as `responseTokenCount`.
+function toUsage(meta: { promptTokenCount?: number; candidatesTokenCount?: number; responseTokenCount?: number; totalTokenCount?: number } | undefined): TokenUsage | undefined {
+  if (!meta?.totalTokenCount) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount ?? 0,
+    responseTokens: meta.candidatesTokenCount ?? meta.responseTokenCount ?? 0,
+    totalTokens: meta.totalTokenCount,
+  };
+}
+
+function toLiveEvent(message: LiveServerMessage): LiveEvent {
+  const content = message.serverContent;
+  return {
+    audio: content?.modelTurn?.parts?.find(p => p.inlineData)?.inlineData?.data,
+    inputTranscript: content?.inputTranscription?.text,
+    outputTranscript: content?.outputTranscription?.text,
+    interrupted: content?.interrupted,
+    turnComplete: content?.turnComplete,
+    toolCalls: toToolCalls(message.toolCall?.functionCalls),
+    usage: toUsage(message.usageMetadata),
+  };
+}
+
+export class GeminiProvider implements ModelProvider {
+  readonly id = 'gemini';
+
+  /** Model IDs come from the tenant configuration; the proxy only accepts configured ones. */
+  constructor(private models: TenantModels) {}
+
+  async *streamChat({ systemInstruction, history, message, tools, grounding, signal }: ChatRequest): AsyncIterable<ChatChunk> {
+    // Chat models don't reliably accept search alongside function declarations; search wins when both are asked for.
+    const toolset = grounding
+      ? [{ googleSearch: {} }]
+      : tools?.length ? [{ functionDeclarations: tools }] : [];
+    const config = {
+      systemInstruction,
+      ...(toolset.length ? { tools: toolset } : {}),
+    };
+    const stream = streamChat(this.models.chat, [...history, message], config, signal);
+    for await (const chunk of stream) {
+      yield {
+        text: chunk.text || '',
+        parts: chunk.candidates?.[0]?.content?.parts ?? [],
+        functionCalls: toToolCalls(chunk.functionCalls),
+        sources: toCitations(chunk),
+        usage: toUsage(chunk.usageMetadata),
+      };
+    }
+  }
+
+  synthesizeSpeech({ text, voiceName, speakingRate = 1, languageCode, signal }: SpeechRequest): Promise<string | undefined> {
+    // The TTS model takes delivery direction as a spoken-style prefix.
+    const pace = paceDirection(speakingRate);
+    return synthesizeSpeech(this.models.tts, pace ? `Say ${pace}: ${text}` : text, voiceName, languageCode, signal);
+  }
+
+  async connectLive({ systemInstruction, voiceName, languageCode, tools, manualActivity, callbacks }: LiveSessionOptions): Promise<LiveSession> {
+    // Short-lived, single-use token minted by the proxy in place of the API key.
+    const { token } = await mintLiveToken(this.models.live);
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    const session = await ai.live.connect({
+      model: this.models.live,
+      callbacks: {
+        onopen: callbacks.onOpen,
+        onmessage: (message: LiveServerMessage) => callbacks.onEvent(toLiveEvent(message)),
+        onerror: callbacks.onError,
+        onclose: callbacks.onClose,
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        speechConfig: {
+          ...(voiceName ? { voiceConfig: { prebuiltVoiceConfig: { voiceName } } } : {}),
+          ...(languageCode ? { languageCode } : {}),
+        },
+        ...(tools?.length ? { tools: [{ functionDeclarations: tools }] } : {}),
+        ...(manualActivity ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+      },
+    });
+    return {
+      sendAudio: (blob) => session.sendRealtimeInput({ media: blob }),
+      startActivity: () => session.sendRealtimeInput({ activityStart: {} }),
+      endActivity: () => session.sendRealtimeInput({ activityEnd: {} }),
+      sendToolResponses: (responses) => session.sendToolResponse({ functionResponses: responses }),
+      close: () => session.close(),
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { TenantModels } from '../tenantConfig';
+import { GeminiProvider } from './geminiProvider';
+import { MockProvider } from './mockProvider';
+import { ModelProvider, ProviderId } from './types';
+
+export type {
+  ChatChunk,
+  ChatRequest,
+  Citation,
+  LiveEvent,
+  LiveSession,
+  ModelProvider,
+  ProviderId,
+  ToolCall,
+  TokenUsage,
+  ToolResponse,
+} from './types';
+
+const PROVIDERS: Record<ProviderId, (models: TenantModels) => ModelProvider> = {
+  gemini: models => new GeminiProvider(models),
+  mock: () => new MockProvider(),
+};
+
+function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+}
+
+/**
+ * Provider precedence: `?provider=` on the URL, then `VITE_MODEL_PROVIDER`, then Gemini.
+ */
+export function resolveProviderId(): ProviderId {
+  const fromUrl = new URLSearchParams(window.location.search).get('provider');
+  if (isProviderId(fromUrl)) return fromUrl;
+  const fromEnv = import.meta.env.VITE_MODEL_PROVIDER;
+  if (isProviderId(fromEnv)) return fromEnv;
+  return 'gemini';
+}
+
+let active: ModelProvider | null = null;
+
+/** The tenant is fixed for the page's lifetime, so the first caller's models are the ones used. */
+export function getModelProvider(models: TenantModels): ModelProvider {
+  if (!active) active = PROVIDERS[resolveProviderId()](models);
+  return active;
+}
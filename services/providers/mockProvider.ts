@@ -0,0 +1,175 @@
+import type { Content } from '@google/genai';
+import { encode } from '../audioUtils';
+import { ChatChunk, ChatRequest, Citation, LiveSession, LiveSessionOptions, ModelProvider, SpeechRequest, TokenUsage } from './types';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const CHUNK_DELAY_MS = 60;
+// ~3 seconds of 16 kHz audio in 2048-sample worklet frames.
+const LIVE_TURN_CHUNKS = 24;
+
+const SCRIPT = [
+  "Understood. Before anything goes out publicly, let's establish what you can verify right now and who inside the organization already knows.",
+  "Your most exposed stakeholders come first: affected customers, then staff, then regulators, then the press. Each needs a tailored message in that order.",
+  "For inbound media in the next hour, use a short holding statement: acknowledge the situation, express genuine concern, and commit to an update at a specific time.",
+  "Designate a single spokesperson and route every inquiry to them. Inconsistent voices are how a one-day story becomes a one-week story.",
+  "Let's schedule the next update now. Silence after a holding statement reads as evasion, even when the facts are still being gathered.",
+];
+
+const DOCUMENT_REQUESTS: [RegExp, string, string][] = [
+  [/press release/i, 'press_release', 'Press release'],
+  [/memo|staff|employees/i, 'staff_memo', 'Staff memo'],
+  [/q\s*&\s*a|questions/i, 'media_qa', 'Media Q&A'],
+  [/statement/i, 'holding_statement', 'Holding statement'],
+];
+
+function scriptedDocument(kind: string, facts: string[]): string {
+  const summary = facts[0] ?? 'the situation';
+  if (kind === 'media_qa') {
+    return `Q: What happened?\nA: We are aware of ${summary} and are gathering the facts.\n\nQ: Who is affected?\nA: Our priority is the people directly affected, and we are contacting them now.`;
+  }
+  return `We are aware of ${summary}. The safety and trust of the people we serve come first. We are gathering the facts and will share a full update within the next two hours.`;
+}
+
+// Scripted arguments for tools the app offers, derived from what the caller has typed so far.
+// Returning undefined means the tool is not called this turn.
+const SCRIPTED_TOOL_ARGS: Record<string, (callerTexts: string[]) => Record<string, unknown> | undefined> = {
+  update_crisis_case: callerTexts => ({
+    severity: callerTexts.length > 2 ? 'high' : 'moderate',
+    knownFacts: callerTexts.filter(t => !/documentId/.test(t)).map(t => (t.length > 140 ? `${t.slice(0, 137)}...` : t)),
+  }),
+  escalate_to_principal: callerTexts => {
+    const latest = callerTexts[callerTexts.length - 1] ?? '';
+    if (!/\b(rich|secure line|escalat\w*|human|call me)\b/i.test(latest) || /documentId/.test(latest)) return undefined;
+    return { summary: `Client requested a direct line. Latest message: "${latest.slice(0, 200)}"`, urgency: 'urgent', reason: 'Client asked for a direct line.' };
+  },
+  draft_document: callerTexts => {
+    const latest = callerTexts[callerTexts.length - 1] ?? '';
+    const revising = latest.match(/documentId ([\w-]+)/);
+    const match = DOCUMENT_REQUESTS.find(([pattern]) => pattern.test(latest));
+    if (!match) return undefined;
+    const [, kind, title] = match;
+    const content = scriptedDocument(kind, callerTexts.filter(t => !/documentId/.test(t)));
+    return revising
+      ? { kind, title, content: `${content}\n\n(Revision ${callerTexts.filter(t => /documentId/.test(t)).length})`, documentId: revising[1] }
+      : { kind, title, content };
+  },
+};
+
+// Stand-in search results, so the sources drawer can be demonstrated offline.
+const SCRIPTED_SOURCES: Citation[] = [
+  { url: 'https://example.com/newsroom/latest-coverage', title: 'example.com' },
+  { url: 'https://example.org/analysis/crisis-response', title: 'example.org' },
+];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function callerTexts(contents: Content[]): string[] {
+  return contents
+    .filter(c => c.role === 'user')
+    .flatMap(c => c.parts ?? [])
+    .map(p => p.text?.trim() ?? '')
+    .filter(Boolean);
+}
+
+// Rough word-based counts, so usage telemetry has figures to show offline.
+function scriptedUsage(callerTexts: string[], replyWords: number): TokenUsage {
+  const promptTokens = Math.round(callerTexts.join(' ').split(/\s+/).length * 1.3);
+  const responseTokens = Math.round(replyWords * 1.3);
+  return { promptTokens, responseTokens, totalTokens: promptTokens + responseTokens };
+}
+
+function scriptedReply(turn: number): string {
+  return SCRIPT[turn % SCRIPT.length];
+}
+
+// A soft tone whose length scales with the text, standing in for synthesized speech.
+function toneFor(text: string, speakingRate = 1): string {
+  const seconds = Math.min(4, 0.4 + text.length / 80) / speakingRate;
+  const frames = Math.floor(OUTPUT_SAMPLE_RATE * seconds);
+  const pcm = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    const fade = Math.min(1, i / 1200, (frames - i) / 1200);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * 220 * i) / OUTPUT_SAMPLE_RATE) * 2500 * fade);
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+/**
+ * Deterministic, fully offline provider for demos and tests. Replies follow a
+ * fixed script indexed by how many model turns the conversation already has.
+ */
+export class MockProvider implements ModelProvider {
+  readonly id = 'mock';
+
+  async *streamChat({ history, message, tools, grounding, signal }: ChatRequest): AsyncIterable<ChatChunk> {
+    // Fresh caller text triggers each scripted tool once before the reply.
+    const isCallerText = message.parts?.some(p => p.text);
+    const texts = callerTexts([...history, message]);
+    // Grounded requests carry no tools, as with Gemini.
+    const functionCalls = isCallerText && !grounding
+      ? (tools ?? [])
+          .filter(t => t.name && SCRIPTED_TOOL_ARGS[t.name])
+          .map((t, i) => ({ id: `mock-${i}`, name: t.name!, args: SCRIPTED_TOOL_ARGS[t.name!](texts) }))
+          .filter((c): c is { id: string; name: string; args: Record<string, unknown> } => c.args !== undefined)
+      : [];
+    if (functionCalls.length) {
+      await wait(CHUNK_DELAY_MS);
+      yield { text: '', parts: functionCalls.map(fc => ({ functionCall: fc })), functionCalls };
+      return;
+    }
+
+    const turn = history.filter(c => c.role === 'model' && c.parts?.some(p => p.text)).length;
+    const words = scriptedReply(turn).split(' ');
+    for (let i = 0; i < words.length; i++) {
+      await wait(CHUNK_DELAY_MS);
+      if (signal?.aborted) return;
+      const last = i === words.length - 1;
+      const text = words[i] + (last ? '' : ' ');
+      yield {
+        text,
+        parts: [{ text }],
+        ...(grounding && last ? { sources: SCRIPTED_SOURCES } : {}),
+        ...(last ? { usage: scriptedUsage(texts, words.length) } : {}),
+      };
+    }
+  }
+
+  async synthesizeSpeech({ text, speakingRate = 1 }: SpeechRequest): Promise<string | undefined> {
+    await wait(CHUNK_DELAY_MS);
+    return toneFor(text, speakingRate);
+  }
+
+  async connectLive({ manualActivity, callbacks }: LiveSessionOptions): Promise<LiveSession> {
+    let closed = false;
+    let chunks = 0;
+    let turn = 0;
+    setTimeout(() => !closed && callbacks.onOpen(), 0);
+
+    const respond = () => {
+      const reply = scriptedReply(turn++);
+      callbacks.onEvent({ inputTranscript: `(caller audio, turn ${turn})` });
+      callbacks.onEvent({ outputTranscript: reply, audio: toneFor(reply) });
+      callbacks.onEvent({ turnComplete: true });
+    };
+
+    return {
+      sendAudio: () => {
+        if (closed) return;
+        chunks++;
+        // Without client turn marking, stand in for server VAD with a fixed turn length.
+        if (!manualActivity && chunks % LIVE_TURN_CHUNKS === 0) respond();
+      },
+      startActivity: () => { chunks = 0; },
+      endActivity: () => {
+        if (!closed && chunks > 0) respond();
+        chunks = 0;
+      },
+      sendToolResponses: () => {},
+      close: () => {
+        if (closed) return;
+        closed = true;
+        callbacks.onClose();
+      },
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import type { Content, FunctionDeclaration, Part } from '@google/genai';
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+  systemInstruction: string;
+  /** Prior turns, oldest first. Does not include `message`. */
+  history: Content[];
+  message: Content;
+  tools?: FunctionDeclaration[];
+  /**
+   * Let the model search the web; what it cites comes back as `sources`. Search and
+   * function calling are not reliably supported together, so a grounded request goes without `tools`.
+   */
+  grounding?: boolean;
+  signal?: AbortSignal;
+}
+
+/** A web page the model's answer drew on. */
+export interface Citation {
+  url: string;
+  title?: string;
+}
+
+/** Token counts the model reported for one request. */
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatChunk {
+  text: string;
+  /** Raw model parts, kept verbatim in history so provider metadata round-trips. */
+  parts: Part[];
+  functionCalls?: ToolCall[];
+  sources?: Citation[];
+  /** Running totals for the request; the last chunk's figures are final. */
+  usage?: TokenUsage;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceName: string;
+  /** Relative pace, 1 is natural. */
+  speakingRate?: number;
+  /** BCP-47 tag such as `es-ES`. */
+  languageCode?: string;
+  signal?: AbortSignal;
+}
+
+/** Normalised server event for a live voice session. */
+export interface LiveEvent {
+  /** Base64 16-bit PCM at 24 kHz. */
+  audio?: string;
+  inputTranscript?: string;
+  outputTranscript?: string;
+  interrupted?: boolean;
+  turnComplete?: boolean;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onEvent: (event: LiveEvent) => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface LiveSessionOptions {
+  systemInstruction: string;
+  voiceName?: string;
+  /** BCP-47 tag such as `es-ES`. */
+  languageCode?: string;
+  tools?: FunctionDeclaration[];
+  /** The client marks turns itself (push-to-talk or client-side VAD) instead of the server detecting speech. */
+  manualActivity?: boolean;
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveSession {
+  /** Sends a 16 kHz PCM chunk produced by `createBlob`. */
+  sendAudio: (blob: { data: string; mimeType: string }) => void;
+  /** Manual activity only: the caller started speaking. */
+  startActivity: () => void;
+  /** Manual activity only: the caller finished; the model may respond. */
+  endActivity: () => void;
+  sendToolResponses: (responses: ToolResponse[]) => void;
+  close: () => void;
+}
+
+export interface ModelProvider {
+  readonly id: ProviderId;
+  streamChat(request: ChatRequest): AsyncIterable<ChatChunk>;
+  synthesizeSpeech(request: SpeechRequest): Promise<string | undefined>;
+  connectLive(options: LiveSessionOptions): Promise<LiveSession>;
+}
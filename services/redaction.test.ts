@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { redactText, restoreText } from './redaction';
+
+describe('redactText', () => {
+  it('masks a whole email address even when it contains a watchlisted name', () => {
+    const { text, entries } = redactText('Write to jane@acme.com about Acme.', [], [{ term: 'Acme', kind: 'organization' }]);
+
+    expect(text).toBe('Write to [EMAIL_1] about [ORG_1].');
+    expect(restoreText(text, entries)).toBe('Write to jane@acme.com about Acme.');
+  });
+
+  it.each([
+    '+44 20 7946 0958',
+    '(555) 123-4567',
+    '555-123-4567',
+    '020 7946 0958',
+    '06 12 34 56 78',
+    '07700 900123',
+  ])('masks the phone number %s', phone => {
+    expect(redactText(`Call ${phone} now`, [], []).text).toBe('Call [PHONE_1] now');
+  });
+
+  it('masks a trunk-prefixed national number in a sentence', () => {
+    expect(redactText('Call me on 07700 900123 please', [], []).text).toBe('Call me on [PHONE_1] please');
+  });
+
+  it.each([
+    'Order numbers 2023 2024 2025',
+    'Shipped 100 250 300 units',
+    'Price is 12 50 75 99',
+    'Incident on 2024-03-15',
+  ])('leaves "%s" alone', text => {
+    expect(redactText(text, [], []).text).toBe(text);
+  });
+
+  it('reuses a placeholder for a value it has masked before', () => {
+    const first = redactText('Call 555-123-4567', [], []);
+    const second = redactText('Again: 555 123 4567', first.entries, []);
+
+    expect(second.text).toBe('Again: [PHONE_1]');
+    expect(second.entries).toHaveLength(1);
+  });
+});
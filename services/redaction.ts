@@ -0,0 +1,158 @@
+import { Content } from '@google/genai';
+import { Language, RedactionEntry, RedactionKind, WatchlistEntry } from '../types';
+import { translate } from './i18n';
+
+const WATCHLIST_KEY = 'rk-redaction-watchlist';
+
+const PLACEHOLDER_PREFIX: Record<RedactionKind, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  account: 'ACCOUNT',
+  person: 'PERSON',
+  organization: 'ORG',
+};
+
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|ACCOUNT|PERSON|ORG)_\d+\]/g;
+
+/**
+ * Digit runs only count as phone numbers in a phone's shape: a country code or a
+ * bracketed area code, a national number behind a trunk 0 (07700 900123,
+ * 020 7946 0958, 06 12 34 56 78) or the North American 3-3-4 grouping
+ * (555-123-4567). Years, prices and quantities ("2023 2024 2025", "12 50 75 99",
+ * "100 250 300") are left alone.
+ */
+function looksLikePhone(match: string): boolean {
+  const value = match.trim();
+  const digits = value.replace(/\D/g, '').length;
+  if (value.startsWith('+') || value.includes('(')) return digits >= 7 && digits <= 15;
+  if (digits < 9 || digits > 12) return false;
+  const separators = new Set(value.match(/[\s.-]+/g));
+  if (separators.size !== 1) return false;
+  const groups = value.split(/[\s.-]+/);
+  if (/^0\d{1,4}$/.test(groups[0])) return true;
+  return groups.length === 3 && groups[0].length === 3 && groups[1].length === 3 && groups[2].length === 4;
+}
+
+// Applied in order: earlier patterns claim text before later, looser ones see it.
+const PATTERNS: { kind: RedactionKind; pattern: RegExp; accept?: (match: string) => boolean }[] = [
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  // IBAN, with or without the usual four-character grouping.
+  { kind: 'account', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  // Card numbers: 13 to 19 digits, optionally grouped.
+  { kind: 'account', pattern: /\b\d{4}(?:[ -]?\d{4}){2}[ -]?\d{1,7}\b/g },
+  {
+    kind: 'phone',
+    // Groups of up to six digits cover trunk-prefixed national formats such as 07700 900123.
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,6}(?:[\s.-]\d{2,6}){1,4}\b/g,
+    accept: looksLikePhone,
+  },
+  // Long unbroken digit runs: account, policy and reference numbers.
+  { kind: 'account', pattern: /\b\d{8,}\b/g },
+];
+
+const normalize = (kind: RedactionKind, value: string) =>
+  kind === 'phone' || kind === 'account' ? value.replace(/[\s().-]/g, '').toUpperCase() : value.trim().toLowerCase();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Later replacements must not rewrite the placeholders earlier ones left behind.
+function replaceOutsidePlaceholders(text: string, pattern: RegExp, replace: (match: string) => string): string {
+  return text
+    .split(/(\[(?:EMAIL|PHONE|ACCOUNT|PERSON|ORG)_\d+\])/)
+    .map((part, i) => (i % 2 ? part : part.replace(pattern, replace)))
+    .join('');
+}
+
+export interface RedactionResult {
+  text: string;
+  /** The input entries plus any new placeholders; the same array when nothing new was masked. */
+  entries: RedactionEntry[];
+}
+
+/**
+ * Masks emails, phone and account numbers and watchlisted names. A value that
+ * was masked before reuses its placeholder, so the model can follow who is who.
+ */
+export function redactText(text: string, entries: RedactionEntry[], watchlist: WatchlistEntry[]): RedactionResult {
+  let next = entries;
+  const placeholderFor = (original: string, kind: RedactionKind): string => {
+    const key = normalize(kind, original);
+    const existing = next.find(e => e.kind === kind && normalize(kind, e.original) === key);
+    if (existing) return existing.placeholder;
+    const placeholder = `[${PLACEHOLDER_PREFIX[kind]}_${next.filter(e => e.kind === kind).length + 1}]`;
+    next = [...next, { placeholder, original: original.trim(), kind }];
+    return placeholder;
+  };
+
+  let out = text;
+  // Patterns first: a watchlisted name inside an email address would otherwise break the
+  // address up and leave the rest of it, the mailbox name included, in the clear.
+  for (const { kind, pattern, accept } of PATTERNS) {
+    out = replaceOutsidePlaceholders(out, pattern, match => (accept && !accept(match) ? match : placeholderFor(match, kind)));
+  }
+  // Longest first, so "Acme Holdings" wins over "Acme".
+  const terms = watchlist.filter(w => w.term.trim()).sort((a, b) => b.term.length - a.term.length);
+  for (const { term, kind } of terms) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`, 'giu');
+    out = replaceOutsidePlaceholders(out, pattern, match => placeholderFor(match, kind));
+  }
+  return { text: out, entries: next };
+}
+
+/** Puts the original values back wherever the model used a placeholder. */
+export function restoreText(text: string, entries: RedactionEntry[]): string {
+  if (!entries.length) return text;
+  return text.replace(PLACEHOLDER_PATTERN, placeholder => entries.find(e => e.placeholder === placeholder)?.original ?? placeholder);
+}
+
+/** `restoreText` applied to every string inside tool-call arguments. */
+export function restoreDeep<T>(value: T, entries: RedactionEntry[]): T {
+  if (!entries.length) return value;
+  if (typeof value === 'string') return restoreText(value, entries) as T;
+  if (Array.isArray(value)) return value.map(v => restoreDeep(v, entries)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreDeep(v, entries)])) as T;
+  }
+  return value;
+}
+
+/** Redacts the text parts of a turn; other parts pass through untouched. */
+export function redactContent(content: Content, redact: (text: string) => string): Content {
+  return { ...content, parts: content.parts?.map(part => (part.text ? { ...part, text: redact(part.text) } : part)) };
+}
+
+/**
+ * Replies are spoken by a hosted TTS model, so masked values are read out as
+ * what they are ("the phone number") rather than restored.
+ */
+export function speakableText(text: string, entries: RedactionEntry[], language: Language): string {
+  return text.replace(PLACEHOLDER_PATTERN, placeholder => {
+    const kind = entries.find(e => e.placeholder === placeholder)?.kind;
+    return kind ? translate(language, `redaction.spoken.${kind}`) : placeholder;
+  });
+}
+
+/** Masks text on its way to the model and restores the model's answer. */
+export interface TextPrivacy {
+  redact: (text: string) => string;
+  restore: (text: string) => string;
+}
+
+export function loadWatchlist(): WatchlistEntry[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(WATCHLIST_KEY) ?? '[]');
+    return Array.isArray(saved)
+      ? saved.filter(w => typeof w?.term === 'string' && (w.kind === 'person' || w.kind === 'organization'))
+      : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveWatchlist(watchlist: WatchlistEntry[]) {
+  try {
+    localStorage.setItem(WATCHLIST_KEY, JSON.stringify(watchlist));
+  } catch (e) {
+    console.warn("Redaction watchlist could not be saved locally.", e);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { backoffDelay, isAbortError, isRetryableError, withRetry } from './retry';
+import { StrategistApiError } from './strategistApi';
+
+const FAST = { retries: 3, baseMs: 1, maxMs: 4 };
+
+describe('backoffDelay', () => {
+  const options = { retries: 5, baseMs: 1000, maxMs: 8000 };
+
+  it('doubles per attempt, jittered between half and all of the ceiling', () => {
+    expect(backoffDelay(1, options, () => 0)).toBe(500);
+    expect(backoffDelay(1, options, () => 1)).toBe(1000);
+    expect(backoffDelay(3, options, () => 0)).toBe(2000);
+    expect(backoffDelay(3, options, () => 1)).toBe(4000);
+  });
+
+  it('never exceeds the maximum delay', () => {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const delay = backoffDelay(attempt, options, Math.random);
+      expect(delay).toBeGreaterThanOrEqual(Math.min(options.maxMs, options.baseMs * 2 ** (attempt - 1)) / 2);
+      expect(delay).toBeLessThanOrEqual(options.maxMs);
+    }
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries network failures, rate limits and server errors but not bad requests or aborts', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new StrategistApiError(429, 'Too many requests'))).toBe(true);
+    expect(isRetryableError(new StrategistApiError(503, 'Unavailable'))).toBe(true);
+    expect(isRetryableError(new StrategistApiError(400, 'Bad request'))).toBe(false);
+    expect(isRetryableError(new DOMException('Stopped.', 'AbortError'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('returns the first successful result', async () => {
+    const task = vi.fn().mockRejectedValueOnce(new Error('flaky')).mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(task, { ...FAST, onRetry })).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(Number), expect.any(Error));
+  });
+
+  it('gives up after the configured number of retries with the last error', async () => {
+    let calls = 0;
+    const task = vi.fn(async () => {
+      throw new Error(`failure ${++calls}`);
+    });
+
+    await expect(withRetry(task, FAST)).rejects.toThrow('failure 4');
+    expect(task).toHaveBeenCalledTimes(FAST.retries + 1);
+  });
+
+  it('does not retry errors the caller rules out', async () => {
+    const task = vi.fn().mockRejectedValue(new StrategistApiError(400, 'Bad request'));
+
+    await expect(withRetry(task, FAST)).rejects.toBeInstanceOf(StrategistApiError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting and rejects with an abort error when the signal fires', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new Error('down'));
+    const retry = withRetry(task, {
+      retries: 5,
+      baseMs: 60_000,
+      maxMs: 60_000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(),
+    });
+
+    const error = await retry.catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { StrategistApiError } from './strategistApi';
+
+export interface BackoffOptions {
+  /** Retries after the first attempt. */
+  retries: number;
+  baseMs: number;
+  maxMs: number;
+}
+
+export const CHAT_BACKOFF: BackoffOptions = { retries: 3, baseMs: 1000, maxMs: 8000 };
+export const LIVE_BACKOFF: BackoffOptions = { retries: 5, baseMs: 1000, maxMs: 15000 };
+
+/** Exponential delay for a 1-based retry attempt, with full jitter so reconnecting clients don't stampede. */
+export function backoffDelay(attempt: number, { baseMs, maxMs }: BackoffOptions, random: () => number = Math.random): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** Network failures, rate limits and server errors are worth retrying; bad requests are not. */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  if (error instanceof StrategistApiError) return error.status === 429 || error.status >= 500;
+  return true;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Retry aborted.', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Retry aborted.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface RetryOptions extends BackoffOptions {
+  signal?: AbortSignal;
+  /** Defaults to `isRetryableError`. */
+  shouldRetry?: (error: unknown) => boolean;
+  /** Called before waiting out each retry delay. */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+/** Runs `task`, retrying with exponential backoff. Rethrows the last error once retries run out. */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const shouldRetry = options.shouldRetry ?? isRetryableError;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (attempt > options.retries || options.signal?.aborted || !shouldRetry(e)) throw e;
+      const delay = backoffDelay(attempt, options);
+      options.onRetry?.(attempt, delay, e);
+      await sleep(delay, options.signal);
+    }
+  }
+}
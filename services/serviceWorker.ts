@@ -0,0 +1,8 @@
+/**
+ * Registers public/sw.js, which keeps the app shell available offline. Only production builds
+ * use it; under the dev server a cached shell would hide code changes.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register('/sw.js').catch(e => console.warn("Offline support unavailable.", e));
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { sentenceEnd } from './speechQueue';
+
+describe('sentenceEnd', () => {
+  it('ends a sentence after its punctuation and trailing space', () => {
+    const text = 'We should hold the statement until noon. Then we brief staff';
+
+    expect(text.slice(0, sentenceEnd(text))).toBe('We should hold the statement until noon. ');
+  });
+
+  it('waits for more text while the first sentence is unfinished', () => {
+    expect(sentenceEnd('We should hold the statement')).toBe(-1);
+  });
+
+  it('does not split after titles, initials or "No." before a number', () => {
+    expect(sentenceEnd('Ask Dr. Smith and J. Doe about recall No. 5 before')).toBe(-1);
+  });
+
+  it('splits after a sentence that ends in "no."', () => {
+    const text = 'Hello there Dr. Smith said no. And then';
+
+    expect(text.slice(0, sentenceEnd(text))).toBe('Hello there Dr. Smith said no. ');
+  });
+
+  it('joins fragments shorter than a useful sentence to the next one', () => {
+    const text = 'Yes. We confirm the recall today. More';
+
+    expect(text.slice(0, sentenceEnd(text))).toBe('Yes. We confirm the recall today. ');
+  });
+
+  it('cuts a run-on at a clause break once it is too long to hold back', () => {
+    const text = `${'word '.repeat(40)}and more, ${'word '.repeat(30)}`;
+    const end = sentenceEnd(text);
+
+    expect(text.slice(0, end)).toBe(`${'word '.repeat(40)}and more,`);
+  });
+});
@@ -0,0 +1,160 @@
+import { AudioPlaybackEngine } from './audioPlayback';
+
+// Fragments shorter than this are joined to the next sentence; one-word TTS requests sound clipped.
+const MIN_SENTENCE_CHARS = 24;
+// A run-on without punctuation is cut at a clause or word break so speech isn't held back.
+const MAX_SENTENCE_CHARS = 280;
+
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'st', 'vs', 'etc', 'inc', 'ltd', 'co', 'jr', 'sr', 'e.g', 'i.e', 'approx']);
+// Abbreviations only before a number ("No. 5"); elsewhere "no." ends a sentence.
+const NUMBER_ABBREVIATIONS = new Set(['no', 'nos']);
+
+const BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+
+/**
+ * Where the first complete sentence of `text` ends (after its trailing space),
+ * or -1 if it is still being written.
+ */
+export function sentenceEnd(text: string): number {
+  BOUNDARY.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = BOUNDARY.exec(text))) {
+    const end = match.index + match[0].length;
+    const word = text.slice(0, match.index).match(/(\S+)$/)?.[1].toLowerCase() ?? '';
+    // "Dr. Smith", "e.g. the board" and initials like "J. Doe" are not sentence ends.
+    const abbreviation = ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word) || (NUMBER_ABBREVIATIONS.has(word) && /^\d/.test(text.slice(end)));
+    if (!match[0].startsWith('\n') && abbreviation) continue;
+    if (text.slice(0, end).trim().length >= MIN_SENTENCE_CHARS) return end;
+  }
+  if (text.length > MAX_SENTENCE_CHARS) {
+    const head = text.slice(0, MAX_SENTENCE_CHARS);
+    const cut = Math.max(head.lastIndexOf(', '), head.lastIndexOf('; '), head.lastIndexOf(': '));
+    return (cut > MIN_SENTENCE_CHARS ? cut : head.lastIndexOf(' ')) + 1 || MAX_SENTENCE_CHARS;
+  }
+  return -1;
+}
+
+export interface SpeechQueueOptions {
+  engine: AudioPlaybackEngine;
+  synthesize: (sentence: string, signal: AbortSignal) => Promise<string | undefined>;
+  /** Sentences synthesized ahead of the one being queued for playback. */
+  prefetch?: number;
+  /** A sentence started playing; `end` is its end offset in the reply text. */
+  onSentence?: (end: number) => void;
+  /** Synthesis failed; the rest of the reply is dropped rather than spoken with gaps. */
+  onError?: (error: unknown) => void;
+}
+
+interface QueuedSentence {
+  text: string;
+  end: number;
+  audio?: Promise<string | undefined>;
+}
+
+/**
+ * Speaks one streamed reply sentence by sentence. Feed it the reply as it grows
+ * with `update`, then `finish`; sentences are synthesized in parallel up to the
+ * prefetch limit but always played in order. `cancel` stops requests and playback.
+ */
+export class SpeechQueue {
+  private readonly sentences: QueuedSentence[] = [];
+  private readonly controller = new AbortController();
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+  private readonly prefetch: number;
+  // Characters of the reply already split into sentences.
+  private offset = 0;
+  private requested = 0;
+  private played = 0;
+  private ticket: number | null = null;
+  private draining = false;
+  private finished = false;
+
+  constructor(private readonly options: SpeechQueueOptions) {
+    this.prefetch = options.prefetch ?? 2;
+  }
+
+  get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /** `text` is the whole reply so far, as streaming callbacks report it. */
+  update(text: string) {
+    if (this.cancelled || this.finished) return;
+    let end: number;
+    while ((end = sentenceEnd(text.slice(this.offset))) !== -1) {
+      this.add(text.slice(this.offset, this.offset + end), this.offset + end);
+      this.offset += end;
+    }
+    this.drain();
+  }
+
+  /** The reply is complete: speak whatever is left and release the engine when done. */
+  finish(text: string) {
+    if (this.cancelled || this.finished) return;
+    this.update(text);
+    this.add(text.slice(this.offset), text.length);
+    this.offset = text.length;
+    this.finished = true;
+    this.drain();
+  }
+
+  cancel() {
+    if (this.cancelled) return;
+    this.controller.abort();
+    this.timers.forEach(clearTimeout);
+    this.timers.clear();
+    if (this.ticket !== null) this.options.engine.endRun(this.ticket);
+  }
+
+  private add(text: string, end: number) {
+    if (!text.trim()) return;
+    this.ticket ??= this.options.engine.beginRun();
+    this.sentences.push({ text: text.trim(), end });
+  }
+
+  private request() {
+    const limit = Math.min(this.sentences.length, this.played + this.prefetch + 1);
+    for (; this.requested < limit; this.requested++) {
+      const sentence = this.sentences[this.requested];
+      sentence.audio = this.options.synthesize(sentence.text, this.controller.signal);
+      // Awaited in order by `drain`; this only keeps a failure after cancel from going unhandled.
+      sentence.audio.catch(() => {});
+    }
+  }
+
+  private async drain() {
+    if (this.draining) return;
+    this.draining = true;
+    const { engine, onSentence, onError } = this.options;
+    try {
+      while (!this.cancelled && this.played < this.sentences.length) {
+        this.request();
+        const sentence = this.sentences[this.played];
+        const audio = await sentence.audio;
+        if (this.cancelled) return;
+        this.played++;
+        this.request();
+        if (!audio || this.ticket === null) continue;
+        await engine.resume();
+        const startsIn = await engine.enqueue(audio, this.ticket);
+        if (startsIn === undefined) continue;
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          if (!this.cancelled) onSentence?.(sentence.end);
+        }, startsIn * 1000);
+        this.timers.add(timer);
+      }
+    } catch (e) {
+      if (this.cancelled) return;
+      onError?.(e);
+      this.cancel();
+      return;
+    } finally {
+      this.draining = false;
+    }
+    if (this.finished && this.played === this.sentences.length && this.ticket !== null) {
+      this.options.engine.endRun(this.ticket);
+      this.ticket = null;
+    }
+  }
+}
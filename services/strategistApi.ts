@@ -0,0 +1,69 @@
+import { Content, GenerateContentConfig, GenerateContentResponse } from '@google/genai';
+
+// All model traffic goes through the local proxy in /server; the API key never reaches the browser.
+const API_BASE = '/api';
+
+export class StrategistApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'StrategistApiError';
+  }
+}
+
+async function post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  const res = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    const detail = await res.json().catch(() => ({}));
+    throw new StrategistApiError(res.status, detail.error || `Request to ${path} failed (${res.status}).`);
+  }
+  return res;
+}
+
+export async function* streamChat(
+  model: string,
+  contents: Content[],
+  config?: GenerateContentConfig,
+  signal?: AbortSignal,
+): AsyncGenerator<GenerateContentResponse> {
+  const res = await post('/chat/stream', { model, contents, config }, signal);
+  if (!res.body) throw new StrategistApiError(502, 'Chat stream returned no body.');
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (value) buffered += value;
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const parsed = JSON.parse(line);
+      if (parsed.error) throw new StrategistApiError(502, parsed.error);
+      // Rehydrate so callers keep the SDK's `.text` / `.functionCalls` accessors.
+      yield Object.assign(new GenerateContentResponse(), parsed);
+    }
+    if (done) break;
+  }
+}
+
+export async function synthesizeSpeech(
+  model: string,
+  text: string,
+  voiceName: string,
+  languageCode?: string,
+  signal?: AbortSignal,
+): Promise<string | undefined> {
+  const res = await post('/tts', { model, text, voiceName, languageCode }, signal);
+  const { audio } = await res.json();
+  return audio ?? undefined;
+}
+
+export async function mintLiveToken(model: string): Promise<{ token: string; expiresAt: string }> {
+  const res = await post('/live/token', { model });
+  return res.json();
+}
@@ -0,0 +1,66 @@
+import { interpolate, TranslateVars } from './i18n';
+import { TenantConfig, TenantConfigError, validateTenantConfig } from './tenantConfig';
+
+// Bundled at build time; the proxy validates the same files when it starts.
+const FILES = import.meta.glob<unknown>(['../tenants/*.json', '!../tenants/*.schema.json'], { eager: true, import: 'default' });
+
+const DEFAULT_TENANT = 'rich-klein';
+
+export type TenantLoadResult = { tenant: TenantConfig; errors?: undefined } | { tenant?: undefined; errors: TenantConfigError[] };
+
+function tenantsById(): { tenants: Map<string, TenantConfig>; errors: TenantConfigError[] } {
+  const tenants = new Map<string, TenantConfig>();
+  const errors: TenantConfigError[] = [];
+  for (const [path, raw] of Object.entries(FILES)) {
+    const source = path.replace('../', '');
+    try {
+      const tenant = validateTenantConfig(raw, source);
+      if (`tenants/${tenant.id}.json` !== source) throw new TenantConfigError(source, [`id "${tenant.id}" must match the file name`]);
+      tenants.set(tenant.id, tenant);
+    } catch (e) {
+      errors.push(e as TenantConfigError);
+    }
+  }
+  return { tenants, errors };
+}
+
+/**
+ * Tenant precedence: `?tenant=` on the URL, then a configured host name, then
+ * `VITE_TENANT`, then the default. Naming a tenant that doesn't exist is an error
+ * rather than a silent fallback, so a mistyped link never shows another firm's branding.
+ */
+export function loadTenant(): TenantLoadResult {
+  const { tenants, errors } = tenantsById();
+  if (errors.length) return { errors };
+
+  const fromUrl = new URLSearchParams(window.location.search).get('tenant');
+  const fromHost = [...tenants.values()].find(t => t.hosts.includes(window.location.hostname))?.id;
+  const [source, id] = fromUrl
+    ? ['?tenant=', fromUrl]
+    : fromHost
+      ? ['host name', fromHost]
+      : import.meta.env.VITE_TENANT
+        ? ['VITE_TENANT', import.meta.env.VITE_TENANT]
+        : ['default', DEFAULT_TENANT];
+  const tenant = tenants.get(id);
+  if (!tenant) {
+    return { errors: [new TenantConfigError(source, [`no tenant named "${id}"; available: ${[...tenants.keys()].join(', ') || 'none'}`])] };
+  }
+  return { tenant };
+}
+
+/** Placeholders every UI message may use, filled in by `useLanguageSettings`. */
+export function brandVars(tenant: TenantConfig): TranslateVars {
+  return {
+    firm: tenant.branding.firmName,
+    principal: tenant.principal.name,
+    principalFirstName: tenant.principal.firstName,
+    years: tenant.branding.yearsOfExperience,
+  };
+}
+
+/** The strategist persona, in English like the rest of the system instruction. */
+export function personaInstruction(tenant: TenantConfig, escalationTool: string): string {
+  const vars = { ...brandVars(tenant), website: tenant.branding.website ?? '', escalationTool };
+  return `\n${tenant.persona.instruction.map(line => interpolate(line, vars)).join('\n')}\n`;
+}
@@ -0,0 +1,43 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { TenantConfigError, validateTenantConfig } from './tenantConfig';
+
+const shipped = JSON.parse(readFileSync(new URL('../tenants/rich-klein.json', import.meta.url), 'utf8'));
+
+describe('validateTenantConfig', () => {
+  it('returns the checked settings without the editor-only $schema key', () => {
+    const tenant = validateTenantConfig(shipped, 'tenants/rich-klein.json');
+
+    expect(tenant.id).toBe('rich-klein');
+    expect(tenant.branding.yearsOfExperience).toBe(40);
+    expect(tenant).not.toHaveProperty('$schema');
+  });
+
+  it('defaults hosts to an empty list', () => {
+    const { hosts: _hosts, ...withoutHosts } = shipped;
+
+    expect(validateTenantConfig(withoutHosts, 'test').hosts).toEqual([]);
+  });
+
+  it('lists every problem in one error', () => {
+    const broken = {
+      ...shipped,
+      id: 'Not An Id',
+      branding: { ...shipped.branding, yearsOfExperience: 2.5, colour: 'blue' },
+      persona: { instruction: [] },
+    };
+
+    try {
+      validateTenantConfig(broken, 'tenants/broken.json');
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(TenantConfigError);
+      expect((e as TenantConfigError).issues).toEqual([
+        'id must be lowercase letters, digits and hyphens',
+        'branding.colour is not a known setting',
+        'branding.yearsOfExperience must be a whole number of years',
+        'persona.instruction must be a non-empty list of lines',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { Language } from '../types';
+import { LANGUAGES } from './i18n';
+
+// Shared by the browser and the proxy server, so it must stay free of DOM and Vite APIs.
+// tenants/tenant.schema.json describes the same rules for editors.
+
+export const TENANT_SCHEMA_VERSION = 1;
+
+export interface TenantPrincipal {
+  name: string;
+  firstName: string;
+  email: string;
+  whatsapp?: string;
+}
+
+export interface TenantModels {
+  chat: string;
+  live: string;
+  tts: string;
+}
+
+export interface TenantConfig {
+  schemaVersion: typeof TENANT_SCHEMA_VERSION;
+  /** Selects the tenant with `?tenant=<id>`. */
+  id: string;
+  /** Revision of this configuration, saved with each consultation. */
+  version: string;
+  /** Host names that select this tenant without a `?tenant=` parameter. */
+  hosts: string[];
+  branding: {
+    firmName: string;
+    shortName: string;
+    /** Two or three letters for the header badge. */
+    monogram: string;
+    website?: string;
+    /** Combined years of experience, quoted as `{years}`. */
+    yearsOfExperience: number;
+  };
+  /** The senior strategist consultations are escalated to. */
+  principal: TenantPrincipal;
+  persona: {
+    /** System instruction lines, with `{firm}`-style placeholders. */
+    instruction: string[];
+    welcome?: Partial<Record<Language, string>>;
+  };
+  models: TenantModels;
+}
+
+export class TenantConfigError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`Invalid tenant configuration in ${source}:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'TenantConfigError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => !!value && typeof value === 'object' && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Checks a parsed configuration file and returns it typed. Every problem is
+ * collected, so one startup error lists everything that needs fixing.
+ */
+export function validateTenantConfig(raw: unknown, source: string): TenantConfig {
+  const issues: string[] = [];
+  // Each reader returns the checked value, or a placeholder after recording the issue;
+  // nothing built from placeholders is returned, because any issue throws below.
+  const text = (value: unknown, path: string): string => {
+    if (isText(value)) return value;
+    issues.push(`${path} must be a non-empty string`);
+    return '';
+  };
+  const optionalText = (value: unknown, path: string): string | undefined => (value === undefined ? undefined : text(value, path));
+  const section = (value: unknown, path: string, keys: string[]): Json => {
+    if (!isObject(value)) {
+      issues.push(`${path} must be an object`);
+      return {};
+    }
+    Object.keys(value).filter(k => !keys.includes(k)).forEach(k => issues.push(`${path}.${k} is not a known setting`));
+    return value;
+  };
+  const textList = (value: unknown, path: string, message: string): string[] => {
+    if (Array.isArray(value) && value.every(isText)) return value;
+    issues.push(`${path} ${message}`);
+    return [];
+  };
+
+  const root = section(raw, 'config', ['$schema', 'schemaVersion', 'id', 'version', 'hosts', 'branding', 'principal', 'persona', 'models']);
+  if (root.schemaVersion !== TENANT_SCHEMA_VERSION) {
+    issues.push(`schemaVersion must be ${TENANT_SCHEMA_VERSION} (found ${JSON.stringify(root.schemaVersion)})`);
+  }
+  const id = typeof root.id === 'string' && /^[a-z0-9][a-z0-9-]*$/.test(root.id) ? root.id : '';
+  if (!id) issues.push('id must be lowercase letters, digits and hyphens');
+  const version = text(root.version, 'version');
+  const hosts = root.hosts === undefined ? [] : textList(root.hosts, 'hosts', 'must be a list of host names');
+
+  const branding = section(root.branding, 'branding', ['firmName', 'shortName', 'monogram', 'website', 'yearsOfExperience']);
+  const firmName = text(branding.firmName, 'branding.firmName');
+  const shortName = text(branding.shortName, 'branding.shortName');
+  const monogram = isText(branding.monogram) && branding.monogram.length <= 3 ? branding.monogram : '';
+  if (!monogram) issues.push('branding.monogram must be one to three characters');
+  const website = optionalText(branding.website, 'branding.website');
+  const years = branding.yearsOfExperience;
+  const yearsOfExperience = typeof years === 'number' && Number.isInteger(years) && years >= 1 ? years : 0;
+  if (!yearsOfExperience) issues.push('branding.yearsOfExperience must be a whole number of years');
+
+  const principal = section(root.principal, 'principal', ['name', 'firstName', 'email', 'whatsapp']);
+  const name = text(principal.name, 'principal.name');
+  const firstName = text(principal.firstName, 'principal.firstName');
+  const email = typeof principal.email === 'string' && /^[^@\s]+@[^@\s]+$/.test(principal.email) ? principal.email : '';
+  if (!email) issues.push('principal.email must be an email address');
+  let whatsapp: string | undefined;
+  if (principal.whatsapp !== undefined) {
+    if (typeof principal.whatsapp === 'string' && /^\+?[0-9 ()-]*$/.test(principal.whatsapp)) whatsapp = principal.whatsapp;
+    else issues.push('principal.whatsapp must be a phone number in international format');
+  }
+
+  const persona = section(root.persona, 'persona', ['instruction', 'welcome']);
+  const instruction = textList(persona.instruction, 'persona.instruction', 'must be a non-empty list of lines');
+  if (Array.isArray(persona.instruction) && !persona.instruction.length) issues.push('persona.instruction must be a non-empty list of lines');
+  let welcome: Partial<Record<Language, string>> | undefined;
+  if (persona.welcome !== undefined) {
+    const lines = section(persona.welcome, 'persona.welcome', Object.keys(LANGUAGES));
+    welcome = {};
+    for (const lang of Object.keys(LANGUAGES) as Language[]) {
+      if (lines[lang] !== undefined) welcome[lang] = text(lines[lang], `persona.welcome.${lang}`);
+    }
+  }
+
+  const models = section(root.models, 'models', ['chat', 'live', 'tts']);
+  const chat = text(models.chat, 'models.chat');
+  const live = text(models.live, 'models.live');
+  const tts = text(models.tts, 'models.tts');
+
+  if (issues.length) throw new TenantConfigError(source, issues);
+  return {
+    schemaVersion: TENANT_SCHEMA_VERSION,
+    id,
+    version,
+    hosts,
+    branding: { firmName, shortName, monogram, website, yearsOfExperience },
+    principal: { name, firstName, email, whatsapp },
+    persona: { instruction, welcome },
+    models: { chat, live, tts },
+  };
+}
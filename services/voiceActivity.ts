@@ -0,0 +1,76 @@
+export type VoiceActivityEvent = 'speech-start' | 'speech-end';
+
+export interface VoiceActivityOptions {
+  /** Floor for the speech threshold, as RMS. */
+  minThreshold?: number;
+  /** Speech must exceed the noise floor by this factor. */
+  noiseMultiplier?: number;
+  /** Continuous speech needed before a turn starts, to ignore clicks and coughs. */
+  minSpeechMs?: number;
+  /** Silence after speech before the turn is considered finished. */
+  silenceMs?: number;
+}
+
+/**
+ * Energy-based voice activity detector fed with RMS levels from the capture
+ * worklet. Tracks an adaptive noise floor while nobody is speaking, so a
+ * noisy room raises the bar instead of holding the turn open.
+ */
+export class VoiceActivityDetector {
+  private readonly minThreshold: number;
+  private readonly noiseMultiplier: number;
+  private readonly minSpeechMs: number;
+  private readonly silenceMs: number;
+  private noiseFloor = 0.005;
+  private speaking = false;
+  private aboveSince: number | null = null;
+  private lastVoiceAt = 0;
+
+  constructor(options: VoiceActivityOptions = {}) {
+    this.minThreshold = options.minThreshold ?? 0.015;
+    this.noiseMultiplier = options.noiseMultiplier ?? 3;
+    this.minSpeechMs = options.minSpeechMs ?? 120;
+    this.silenceMs = options.silenceMs ?? 900;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  get threshold(): number {
+    return Math.max(this.minThreshold, this.noiseFloor * this.noiseMultiplier);
+  }
+
+  /** Feeds one level sample; returns an event when the speaking state flips. */
+  process(level: number, now: number = performance.now()): VoiceActivityEvent | null {
+    const voiced = level >= this.threshold;
+
+    if (!this.speaking) {
+      if (!voiced) {
+        this.aboveSince = null;
+        // Slow-moving average so brief noises don't drag the floor up.
+        this.noiseFloor = this.noiseFloor * 0.98 + level * 0.02;
+        return null;
+      }
+      this.aboveSince ??= now;
+      if (now - this.aboveSince < this.minSpeechMs) return null;
+      this.speaking = true;
+      this.lastVoiceAt = now;
+      return 'speech-start';
+    }
+
+    if (voiced) {
+      this.lastVoiceAt = now;
+      return null;
+    }
+    if (now - this.lastVoiceAt < this.silenceMs) return null;
+    this.speaking = false;
+    this.aboveSince = null;
+    return 'speech-end';
+  }
+
+  reset() {
+    this.speaking = false;
+    this.aboveSince = null;
+  }
+}
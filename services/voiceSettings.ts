@@ -0,0 +1,73 @@
+import { InputMode, VoiceConfig, VoiceName } from '../types';
+
+const STORAGE_KEY = 'rk-voice-settings';
+const INPUT_MODE_KEY = 'rk-input-mode';
+
+export const VOICE_NAMES: VoiceName[] = ['Kore', 'Zephyr', 'Puck', 'Charon', 'Fenrir'];
+
+export const SPEAKING_RATE_RANGE = { min: 0.75, max: 1.5, step: 0.25 };
+
+export const DEFAULT_VOICE_CONFIG: VoiceConfig = {
+  voiceName: 'Kore',
+  muted: false,
+  volume: 1,
+  speakingRate: 1,
+  autoSpeak: true,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Reads saved settings, falling back to defaults field by field for anything missing or invalid. */
+export function loadVoiceConfig(): VoiceConfig {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {
+      voiceName: VOICE_NAMES.includes(saved.voiceName) ? saved.voiceName : DEFAULT_VOICE_CONFIG.voiceName,
+      muted: typeof saved.muted === 'boolean' ? saved.muted : DEFAULT_VOICE_CONFIG.muted,
+      volume: typeof saved.volume === 'number' ? clamp(saved.volume, 0, 1) : DEFAULT_VOICE_CONFIG.volume,
+      speakingRate: typeof saved.speakingRate === 'number'
+        ? clamp(saved.speakingRate, SPEAKING_RATE_RANGE.min, SPEAKING_RATE_RANGE.max)
+        : DEFAULT_VOICE_CONFIG.speakingRate,
+      autoSpeak: typeof saved.autoSpeak === 'boolean' ? saved.autoSpeak : DEFAULT_VOICE_CONFIG.autoSpeak,
+    };
+  } catch (e) {
+    return { ...DEFAULT_VOICE_CONFIG };
+  }
+}
+
+export function saveVoiceConfig(config: VoiceConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.warn("Voice settings could not be saved locally.", e);
+  }
+}
+
+/** Voice-activated by default; push-to-talk suits noisy rooms and speakerphones. */
+export function loadInputMode(): InputMode {
+  try {
+    return localStorage.getItem(INPUT_MODE_KEY) === 'push-to-talk' ? 'push-to-talk' : 'vad';
+  } catch (e) {
+    return 'vad';
+  }
+}
+
+export function saveInputMode(mode: InputMode) {
+  try {
+    localStorage.setItem(INPUT_MODE_KEY, mode);
+  } catch (e) {
+    console.warn("Input mode could not be saved locally.", e);
+  }
+}
+
+/**
+ * Delivery direction for the speaking rate. Neither the TTS nor the live model
+ * takes a numeric rate, so pace is requested in words.
+ */
+export function paceDirection(speakingRate: number): string | null {
+  if (speakingRate <= 0.8) return 'slowly and deliberately';
+  if (speakingRate < 1) return 'at a measured, unhurried pace';
+  if (speakingRate >= 1.4) return 'quickly and crisply';
+  if (speakingRate > 1) return 'at a brisk pace';
+  return null;
+}
@@ -1,3 +1,15 @@
+import type { Content } from '@google/genai';
+
+
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  /** Size of the original file in bytes. */
+  size: number;
+  /** Base64 file contents. */
+  data: string;
+}
 
 export interface Transcription {
   text: string;
@@ -6,9 +18,156 @@ export interface Transcription {
   metadata?: {
     url?: string;
     title?: string;
+    /** A search source cited by the model answer just before it, shown in that answer's sources drawer. */
+    citation?: boolean;
   };
+  /** Evidence files the caller sent with this message. */
+  attachments?: Attachment[];
 }
 
+export type VoiceName = 'Kore' | 'Zephyr' | 'Puck' | 'Charon' | 'Fenrir';
+
 export interface VoiceConfig {
-  voiceName: 'Kore' | 'Zephyr' | 'Puck' | 'Charon' | 'Fenrir';
+  voiceName: VoiceName;
+  muted: boolean;
+  /** Output gain, 0 to 1. */
+  volume: number;
+  /** Relative pace, 1 is natural. */
+  speakingRate: number;
+  /** Speak typed-chat replies aloud. Live voice calls are always spoken. */
+  autoSpeak: boolean;
+}
+
+/** Languages the UI and the strategist's prompts are available in. */
+export type Language = 'en' | 'es' | 'fr' | 'de';
+
+/** How the caller takes a turn on the voice line: voice activity detection or push-to-talk. */
+export type InputMode = 'vad' | 'push-to-talk';
+
+
+export type CrisisSeverity = 'low' | 'moderate' | 'high' | 'critical';
+
+export interface CrisisDeadline {
+  description: string;
+  /** Free-form as stated by the caller, e.g. "5pm ET today". */
+  due?: string;
+}
+
+export interface CrisisCase {
+  organization?: string;
+  incidentType?: string;
+  severity?: CrisisSeverity;
+  stakeholders: string[];
+  knownFacts: string[];
+  mediaExposure?: string;
+  deadlines: CrisisDeadline[];
+  /** Fields corrected by hand; model updates never overwrite these. */
+  lockedFields: CrisisCaseField[];
+  updatedAt?: number;
+}
+
+export type CrisisCaseField = Exclude<keyof CrisisCase, 'lockedFields' | 'updatedAt'>;
+
+export type DocumentKind = 'holding_statement' | 'press_release' | 'staff_memo' | 'media_qa';
+
+export interface DocumentVersion {
+  content: string;
+  createdAt: number;
+  /** Who produced this version: a model draft or a hand edit. */
+  source: 'model' | 'user';
+  /** The refinement request that produced it, if any. */
+  instruction?: string;
+}
+
+export interface CrisisDocument {
+  id: string;
+  kind: DocumentKind;
+  title: string;
+  versions: DocumentVersion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ConsultationMode = 'voice' | 'message';
+
+/** Media-training scenarios the reporter simulator can run. */
+export type DrillScenarioId = 'product_recall' | 'data_breach' | 'workplace_accident';
+
+export type DrillCategory = 'discipline' | 'admissions' | 'tone';
+
+export interface DrillScore {
+  category: DrillCategory;
+  /** 1 to 10, higher is better. */
+  score: number;
+  comment: string;
+  /** The spokesperson's own words, checked against the transcript. */
+  excerpts: string[];
+}
+
+export interface DrillDebrief {
+  overall: number;
+  summary: string;
+  scores: DrillScore[];
+  generatedAt: number;
+}
+
+/** A tabletop drill: the strategist plays a hostile reporter instead of counselling. */
+export interface DrillSession {
+  scenario: DrillScenarioId;
+  /** The latest debrief; ending the drill again replaces it. */
+  debrief?: DrillDebrief;
+}
+
+export type RedactionKind = 'email' | 'phone' | 'account' | 'person' | 'organization';
+
+/** One masked value and the placeholder the model sees instead, e.g. `[PERSON_1]`. */
+export interface RedactionEntry {
+  placeholder: string;
+  original: string;
+  kind: RedactionKind;
+}
+
+/** A name the caller always wants masked. */
+export interface WatchlistEntry {
+  term: string;
+  kind: 'person' | 'organization';
+}
+
+export interface RedactionState {
+  /** Per consultation; when off, new messages go to the model unmasked. */
+  enabled: boolean;
+  /** Placeholders stay stable for the whole consultation, so they are saved with it. */
+  entries: RedactionEntry[];
+}
+
+/** A turn waiting to reach the strategist, saved with the consultation so it survives a reload while offline. */
+export interface QueuedTurn {
+  id: string;
+  turn: Content;
+  /** Document revisions stay out of the transcript. */
+  quiet: boolean;
+  revision?: string;
+  /** The transcript entry shown as queued until the turn is delivered. */
+  entryTimestamp?: number;
+}
+
+export interface Consultation {
+  id: string;
+  mode: ConsultationMode;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  transcriptions: Transcription[];
+  /** Model-facing chat history, replayed to the provider when a consultation is resumed. */
+  history: Content[];
+  crisisCase?: CrisisCase;
+  documents?: CrisisDocument[];
+  redaction?: RedactionState;
+  /** Whether the strategist may search the web; absent means off. */
+  grounding?: boolean;
+  /** Tenant configuration the consultation was held under; absent on consultations saved before tenants. */
+  tenant?: { id: string; version: string };
+  drill?: DrillSession;
+  /** Turns not yet delivered, sent in order when the connection returns. */
+  outbox?: QueuedTurn[];
 }
@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MODEL_PROVIDER?: 'gemini' | 'mock';
+  readonly VITE_ESCALATION_WHATSAPP?: string;
+  readonly VITE_TENANT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,10 +1,26 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the hashed build output so public/sw.js can precache it on install, not only once each
+// file has been fetched; otherwise the first visit leaves the app unusable offline.
+function assetManifest(): Plugin {
+  return {
+    name: 'asset-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const assets = Object.keys(bundle).filter(file => file.startsWith('assets/')).map(file => `/${file}`);
+      this.emitFile({ type: 'asset', fileName: 'asset-manifest.json', source: JSON.stringify(assets) });
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
-  define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+  plugins: [react(), assetManifest()],
+  server: {
+    // Model calls are proxied to the local key-holding server (npm run server).
+    proxy: {
+      '/api': `http://localhost:${process.env.PORT || 8787}`,
+    },
   },
   build: {
     target: 'esnext',